@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { BaselineEntry, LinterError } from './types';
+
+export const DEFAULT_BASELINE_FILE = 'blueprint-linter-baseline.json';
+// Bump when the layout of the baseline file or the fingerprint changes
+const BASELINE_FORMAT = 1;
+
+interface BaselineFile {
+    format: number;
+    entries: BaselineEntry[];
+}
+
+export interface Baseline {
+    file: string; // Absolute path
+    entries: BaselineEntry[];
+}
+
+/**
+ * Resolves `--baseline`; relative paths are resolved from `scanPath`.
+ */
+export function resolveBaselineFile(scanPath: string, location: string = DEFAULT_BASELINE_FILE): string {
+    return path.resolve(scanPath, location);
+}
+
+/**
+ * Hashes a finding's message. Absolute paths to the scan path are replaced first, so that
+ * messages mentioning them match on every machine.
+ */
+function fingerprint(finding: LinterError, scanPath: string): string {
+    const message = finding.message.split(scanPath).join('.').replace(/\s+/g, ' ').trim();
+    return crypto.createHash('sha256').update(message).digest('hex').slice(0, 16);
+}
+
+interface BaselineKey {
+    ruleId: string;
+    file: string; // Relative to the baseline file's directory, with forward slashes
+    fingerprint: string;
+}
+
+function toKey(finding: LinterError, scanPath: string, baselineFile: string): BaselineKey {
+    return {
+        ruleId: finding.ruleId || finding.type,
+        file: path.relative(path.dirname(baselineFile), path.resolve(scanPath, finding.file)).split(path.sep).join('/') || '.',
+        fingerprint: fingerprint(finding, scanPath)
+    };
+}
+
+const keyString = (key: BaselineKey) => `${key.ruleId}\0${key.file}\0${key.fingerprint}`;
+
+/**
+ * Loads a baseline file.
+ * @returns undefined when the file does not exist.
+ * @throws When the file cannot be read or is not a baseline.
+ */
+export function loadBaseline(file: string): Baseline | undefined {
+    if (!fs.existsSync(file)) return undefined;
+    const data: BaselineFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!data || data.format !== BASELINE_FORMAT || !Array.isArray(data.entries)) {
+        throw new Error(`'${file}' is not a baseline file of this linter version. Write it again with --write-baseline.`);
+    }
+    return { file, entries: data.entries };
+}
+
+/**
+ * Records the findings in a baseline file, replacing its previous contents.
+ * Identical findings on the same file are counted rather than repeated.
+ * @returns The written baseline.
+ */
+export function writeBaseline(file: string, scanPath: string, findings: LinterError[]): Baseline {
+    const entries = new Map<string, BaselineEntry>();
+    for (const finding of findings) {
+        const key = toKey(finding, scanPath, file);
+        const entry = entries.get(keyString(key));
+        if (entry) {
+            entry.count++;
+        } else {
+            entries.set(keyString(key), { ...key, message: finding.message, count: 1 });
+        }
+    }
+    const sorted = [...entries.values()].sort((a, b) =>
+        a.file.localeCompare(b.file) || a.ruleId.localeCompare(b.ruleId) || a.fingerprint.localeCompare(b.fingerprint)
+    );
+    const data: BaselineFile = { format: BASELINE_FORMAT, entries: sorted };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    return { file, entries: sorted };
+}
+
+/**
+ * Splits findings into new ones and ones recorded in the baseline. An entry recorded
+ * `count` times matches at most that many findings; findings beyond it are new.
+ * @returns The new findings, the baselined ones, and the entries (with the unmatched count) that no longer occur.
+ */
+export function applyBaseline(
+    findings: LinterError[],
+    baseline: Baseline,
+    scanPath: string
+): { findings: LinterError[]; baselined: LinterError[]; stale: BaselineEntry[] } {
+    const remaining = new Map(baseline.entries.map(entry => [keyString(entry), entry.count]));
+    const fresh: LinterError[] = [];
+    const baselined: LinterError[] = [];
+    for (const finding of findings) {
+        const key = keyString(toKey(finding, scanPath, baseline.file));
+        const count = remaining.get(key) || 0;
+        if (count > 0) {
+            remaining.set(key, count - 1);
+            baselined.push(finding);
+        } else {
+            fresh.push(finding);
+        }
+    }
+    const stale = baseline.entries
+        .filter(entry => (remaining.get(keyString(entry)) || 0) > 0)
+        .map(entry => ({ ...entry, count: remaining.get(keyString(entry))! }));
+    return { findings: fresh, baselined, stale };
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { createFixture } from '../testing/fixtures';
+import { createProjectIndex } from '../utils/projectIndex';
+import { ErrorType, RuleMeta, Severity } from '../types';
+import { computeCacheKey, getCachedFindings, loadResultCache, saveResultCache, setCachedFindings } from './resultCache';
+
+const rule: RuleMeta = { id: 'test-rule', description: '', docsUrl: '', defaultSeverity: Severity.Error, inputs: ['contracts/**'] };
+
+// Keys are computed on a fresh cache each time, as in separate runs
+async function keyOf(root: string, meta: RuleMeta = rule, config: unknown = {}): Promise<string> {
+    return computeCacheKey(loadResultCache(path.join(root, 'cache.json')), await createProjectIndex(root), meta, config);
+}
+
+test('the cache key changes with the rule\'s input files only', async () => {
+    const root = createFixture({ 'contracts/a.fc': 'a', 'scripts/deploy.ts': '' });
+    const key = await keyOf(root);
+    fs.writeFileSync(path.join(root, 'scripts/deploy.ts'), 'changed');
+    assert.equal(await keyOf(root), key);
+    fs.writeFileSync(path.join(root, 'contracts/a.fc'), 'changed');
+    assert.notEqual(await keyOf(root), key);
+});
+
+test('the cache key covers renames, config and the rule version', async () => {
+    const root = createFixture({ 'contracts/a.fc': 'a' });
+    const key = await keyOf(root);
+    assert.notEqual(await keyOf(root, rule, { options: { pattern: 'x' } }), key);
+    assert.notEqual(await keyOf(root, { ...rule, version: '2' }), key);
+    fs.renameSync(path.join(root, 'contracts/a.fc'), path.join(root, 'contracts/b.fc'));
+    assert.notEqual(await keyOf(root), key);
+});
+
+test('the cache key covers extra inputs, including ones that appear later', async () => {
+    const root = createFixture({ 'contracts/a.fc': 'a' });
+    const manifest = path.join(root, 'node_modules/pkg/package.json');
+    const withExtra: RuleMeta = { ...rule, extraInputs: projectRoot => [path.join(projectRoot, 'node_modules/pkg/package.json')] };
+    const missing = await keyOf(root, withExtra);
+    fs.mkdirSync(path.dirname(manifest), { recursive: true });
+    fs.writeFileSync(manifest, '{"version":"1.0.0"}');
+    const installed = await keyOf(root, withExtra);
+    assert.notEqual(installed, missing);
+    fs.writeFileSync(manifest, '{"version":"1.0.1"}');
+    assert.notEqual(await keyOf(root, withExtra), installed);
+});
+
+test('cached findings survive a save and are only returned for the same key', () => {
+    const root = createFixture({});
+    const file = path.join(root, 'cache.json');
+    const cache = loadResultCache(file);
+    setCachedFindings(cache, 'proj', 'test-rule', 'key-1', [{ type: ErrorType.ImportResolution, file: 'a.fc', message: 'm' }]);
+    saveResultCache(cache);
+    const next = loadResultCache(file);
+    assert.deepEqual(getCachedFindings(next, 'proj', 'test-rule', 'key-1'), [{ type: ErrorType.ImportResolution, file: 'a.fc', message: 'm' }]);
+    assert.equal(getCachedFindings(next, 'proj', 'test-rule', 'key-2'), undefined);
+});
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { LinterError, RuleMeta } from '../types';
+import { isRuleInput } from '../rules/registry';
+import { ProjectIndex } from '../utils/projectIndex';
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const packageJson = require('../../package.json');
+
+export const DEFAULT_CACHE_LOCATION = path.join('node_modules', '.cache', 'blueprint-linter');
+const CACHE_FILE_NAME = 'cache.json';
+// Bump when the layout of the cache file or of cached findings changes
+const CACHE_FORMAT = 2;
+
+interface CacheEntry {
+    key: string;
+    findings: LinterError[]; // As returned by the rule, with paths relative to the scan path
+}
+
+interface CacheFile {
+    format: number;
+    entries: Record<string, CacheEntry>; // Keyed by project path relative to the scan path, and rule id
+}
+
+/**
+ * Rule results of previous runs. Entries not looked up during a run are dropped when it is saved,
+ * so the cache only holds projects and rules that still exist.
+ */
+export interface ResultCache {
+    file: string;
+    previous: Record<string, CacheEntry>;
+    current: Record<string, CacheEntry>;
+    fileHashes: Map<string, string>; // Absolute path -> content hash, shared by the rules of a run
+}
+
+/**
+ * Resolves `--cache-location`: an existing directory, or a path ending in a separator,
+ * holds `cache.json`; anything else is the cache file itself. Relative paths are resolved from `baseDir`.
+ */
+export function resolveCacheFile(baseDir: string, location: string = DEFAULT_CACHE_LOCATION): string {
+    const resolved = path.resolve(baseDir, location);
+    const isDirectory = location === DEFAULT_CACHE_LOCATION || /[\\/]$/.test(location) ||
+        (fs.existsSync(resolved) && fs.statSync(resolved).isDirectory());
+    return isDirectory ? path.join(resolved, CACHE_FILE_NAME) : resolved;
+}
+
+/**
+ * Loads the cache file. A missing, unreadable or outdated file gives an empty cache.
+ */
+export function loadResultCache(file: string): ResultCache {
+    let previous: Record<string, CacheEntry> = {};
+    try {
+        const data: CacheFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        if (data.format === CACHE_FORMAT && data.entries) previous = data.entries;
+    } catch {
+        // Start over
+    }
+    return { file, previous, current: {}, fileHashes: new Map() };
+}
+
+/**
+ * Writes the entries looked up or set during the run.
+ * @param keepPrevious Also keep the other entries, for runs that checked only some projects or rules.
+ */
+export function saveResultCache(cache: ResultCache, keepPrevious = false): void {
+    const data: CacheFile = { format: CACHE_FORMAT, entries: keepPrevious ? { ...cache.previous, ...cache.current } : cache.current };
+    fs.mkdirSync(path.dirname(cache.file), { recursive: true });
+    fs.writeFileSync(cache.file, JSON.stringify(data), 'utf-8');
+}
+
+function hashFile(cache: ResultCache, file: string): string {
+    let hash = cache.fileHashes.get(file);
+    if (!hash) {
+        hash = crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+        cache.fileHashes.set(file, hash);
+    }
+    return hash;
+}
+
+// Extra inputs may be missing, or be directories such as a local module's folder
+function hashExtraInput(cache: ResultCache, file: string): string {
+    try {
+        return fs.statSync(file).isFile() ? hashFile(cache, file) : 'directory';
+    } catch {
+        return 'missing';
+    }
+}
+
+/**
+ * Computes the cache key of a rule on a project: a hash of the linter and rule versions,
+ * the rule's config, and the names and contents of the files matching the rule's `inputs`
+ * (every file of the project when it has none) and of its `extraInputs`, and which of the
+ * input files `.blueprintlinterignore` excludes.
+ * @param index The project's file index.
+ * @param config Everything from the config and lint options that the rule's findings depend on.
+ * @param isIgnored The ignore matcher the rule runs with.
+ */
+export function computeCacheKey(
+    cache: ResultCache,
+    index: ProjectIndex,
+    rule: RuleMeta,
+    config: unknown,
+    isIgnored: (absolutePath: string) => boolean = () => false
+): string {
+    const files = index.files
+        // A cache file kept inside the project must not invalidate itself
+        .filter(file => path.join(index.root, file) !== cache.file)
+        .filter(file => isRuleInput(rule, file));
+    const hash = crypto.createHash('sha256');
+    hash.update(JSON.stringify({ linter: packageJson.version, rule: rule.version || '', config }));
+    for (const file of files) {
+        const absolutePath = path.join(index.root, file);
+        // Rules leave ignored files out, so un-ignoring a file can add findings elsewhere
+        hash.update(`\0${file}\0${hashFile(cache, absolutePath)}${isIgnored(absolutePath) ? '\0ignored' : ''}`);
+    }
+    for (const file of rule.extraInputs?.(index.root) || []) {
+        hash.update(`\0${file}\0${hashExtraInput(cache, file)}`);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Returns the cached findings of a rule if its key is unchanged, and keeps the entry for the next run.
+ */
+export function getCachedFindings(cache: ResultCache, project: string, ruleId: string, key: string): LinterError[] | undefined {
+    const entryKey = `${project}\0${ruleId}`;
+    const entry = cache.previous[entryKey];
+    if (!entry || entry.key !== key) return undefined;
+    cache.current[entryKey] = entry;
+    // Callers resolve severities on the findings in place
+    return entry.findings.map(finding => ({ ...finding }));
+}
+
+export function setCachedFindings(cache: ResultCache, project: string, ruleId: string, key: string, findings: LinterError[]): void {
+    cache.current[`${project}\0${ruleId}`] = { key, findings: findings.map(finding => ({ ...finding })) };
+}
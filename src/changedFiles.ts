@@ -0,0 +1,47 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface ChangedFilesOptions {
+    since?: string; // Compare with the merge base of this ref and HEAD instead of HEAD itself
+    staged?: boolean; // Only files staged for commit
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+        return stdout;
+    } catch (error: any) {
+        const detail = (error.stderr || error.message || String(error)).trim();
+        throw new Error(`'git ${args.join(' ')}' failed: ${detail}`);
+    }
+}
+
+// Output of a `-z` command, as absolute paths
+function parsePaths(output: string, repoRoot: string): string[] {
+    return output.split('\0').filter(file => file.length > 0).map(file => path.join(repoRoot, file));
+}
+
+/**
+ * Lists the files changed in the git repository containing `cwd`: by default every change since
+ * HEAD, staged or not, including untracked files; with `since`, every change since the branch left
+ * that ref; with `staged`, only the changes staged for commit. Deleted and renamed-away files are
+ * included, since removing a file can change the findings of the files that remain.
+ * @returns Absolute paths, sorted.
+ */
+export async function getChangedFiles(cwd: string, options: ChangedFilesOptions = {}): Promise<string[]> {
+    const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+    const files = new Set<string>();
+
+    if (options.staged) {
+        parsePaths(await git(repoRoot, ['diff', '--name-only', '--no-renames', '-z', '--cached']), repoRoot).forEach(file => files.add(file));
+    } else {
+        const base = options.since ? (await git(repoRoot, ['merge-base', options.since, 'HEAD'])).trim() : 'HEAD';
+        parsePaths(await git(repoRoot, ['diff', '--name-only', '--no-renames', '-z', base]), repoRoot).forEach(file => files.add(file));
+        parsePaths(await git(repoRoot, ['ls-files', '--others', '--exclude-standard', '-z']), repoRoot).forEach(file => files.add(file));
+    }
+
+    return [...files].sort();
+}
@@ -1,7 +1,9 @@
 import fs from 'fs';
 import path from 'path';
-import { glob } from 'glob';
-import { LinterError, ErrorType } from '../types';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { getCompileTargets } from '../utils/typescriptSource';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
 
 interface TactProject {
     name: string;
@@ -19,17 +21,29 @@ interface TactConfig {
     projects: TactProject[];
 }
 
-interface CompilerConfig {
-    lang: string;
-    targets: string[];
+/**
+ * Reads the contract paths listed in a project's `tact.config.json`, if it exists and parses.
+ * @param projectRoot The absolute path to the project root directory
+ */
+export function readTactConfigPaths(projectRoot: string): string[] {
+    const tactConfigPath = path.join(projectRoot, 'tact.config.json');
+    if (!fs.existsSync(tactConfigPath)) return [];
+    try {
+        const tactConfig: TactConfig = JSON.parse(fs.readFileSync(tactConfigPath, 'utf-8'));
+        return Array.isArray(tactConfig.projects) ? tactConfig.projects.map(project => project.path).filter(Boolean) : [];
+    } catch {
+        // Parse errors are reported by checkContractFilesExist
+        return [];
+    }
 }
 
 /**
  * Checks if contract files specified in configuration files actually exist
  * @param projectRoot The absolute path to the project root directory
+ * @param index The project's file index; built when omitted
  * @returns An array of LinterError objects if contracts are missing, otherwise an empty array
  */
-export async function checkContractFilesExist(projectRoot: string): Promise<LinterError[]> {
+export async function checkContractFilesExist(projectRoot: string, index?: ProjectIndex): Promise<LinterError[]> {
     const errors: LinterError[] = [];
 
     // Check tact.config.json
@@ -47,7 +61,9 @@ export async function checkContractFilesExist(projectRoot: string): Promise<Lint
                             errors.push({
                                 type: ErrorType.MissingContract,
                                 file: 'tact.config.json',
-                                message: `Contract file '${project.path}' specified in tact.config.json for project '${project.name}' does not exist`
+                                message: `Contract file '${project.path}' specified in tact.config.json for project '${project.name}' does not exist`,
+                                code: 'missing-contract',
+                                data: { path: project.path, project: project.name }
                             });
                         }
                     }
@@ -57,51 +73,36 @@ export async function checkContractFilesExist(projectRoot: string): Promise<Lint
             errors.push({
                 type: ErrorType.StructureValidation,
                 file: tactConfigPath,
-                message: `Error reading or parsing tact.config.json: ${error.message || error}`
+                message: `Error reading or parsing tact.config.json: ${error.message || error}`,
+                code: 'invalid-tact-config'
             });
         }
     }
 
     // Check .compile.ts files recursively in all subdirectories
     try {
-        const compileFiles = await glob('**/*.compile.ts', { 
-            cwd: projectRoot, 
-            ignore: ['**/node_modules/**'],
-            absolute: false 
-        });
-        
+        const projectIndex = index || await createProjectIndex(projectRoot);
+        const compileFiles = projectIndex.glob('**/*.compile.ts');
+
         for (const compileFile of compileFiles) {
             const compileFilePath = path.join(projectRoot, compileFile);
             try {
-                const compileContent = fs.readFileSync(compileFilePath, 'utf-8');
-                
-                // Parse the targets array or target field using regex since it's TypeScript code
-                const targetsMatch = compileContent.match(/targets:\s*\[([\s\S]*?)\]/);
-                const targetMatch = compileContent.match(/target:\s*['"`]([^'"`]+)['"`]/);
-                
-                let targetPaths: string[] = [];
-                
-                if (targetsMatch) {
-                    // Handle targets: [...] array format (FunC)
-                    const targetsString = targetsMatch[1];
-                    targetPaths = targetsString
-                        .split(',')
-                        .map(target => target.trim())
-                        .map(target => target.replace(/['"`]/g, '')) // Remove quotes
-                        .filter(target => target.length > 0);
-                } else if (targetMatch) {
-                    // Handle target: "..." single value format (Tact)
-                    targetPaths = [targetMatch[1]];
-                }
+                const compileContent = await projectIndex.readFile(compileFilePath);
+                const { field, targetPaths, ranges } = getCompileTargets(compileFilePath, compileContent);
 
-                for (const targetPath of targetPaths) {
+                for (const [index, targetPath] of targetPaths.entries()) {
                     if (targetPath) {
                         const contractPath = path.resolve(projectRoot, targetPath);
                         if (!fs.existsSync(contractPath)) {
+                            // Targets built from __dirname are absolute
+                            const displayPath = path.isAbsolute(targetPath) ? path.relative(projectRoot, targetPath) : targetPath;
                             errors.push({
                                 type: ErrorType.MissingContract,
                                 file: compileFile,
-                                message: `Contract file '${targetPath}' specified in ${compileFile} ${targetsMatch ? 'targets array' : 'target field'} does not exist`
+                                ...ranges[index],
+                                message: `Contract file '${displayPath}' specified in ${compileFile} ${field === 'targets' ? 'targets array' : 'target field'} does not exist`,
+                                code: 'missing-contract',
+                                data: { path: displayPath, field }
                             });
                         }
                     }
@@ -110,7 +111,8 @@ export async function checkContractFilesExist(projectRoot: string): Promise<Lint
                 errors.push({
                     type: ErrorType.StructureValidation,
                     file: compileFile,
-                    message: `Error reading or parsing ${compileFile}: ${error.message || error}`
+                    message: `Error reading or parsing ${compileFile}: ${error.message || error}`,
+                    code: 'read-error'
                 });
             }
         }
@@ -118,9 +120,20 @@ export async function checkContractFilesExist(projectRoot: string): Promise<Lint
         errors.push({
             type: ErrorType.StructureValidation,
             file: projectRoot,
-            message: `Error searching for .compile.ts files: ${error.message || error}`
+            message: `Error searching for .compile.ts files: ${error.message || error}`,
+            code: 'scan-error'
         });
     }
 
     return errors;
-} 
\ No newline at end of file
+} 
+
+export const contractFilesExistRule: Rule = {
+    id: RuleId.ContractFilesExist,
+    description: 'Contracts referenced by tact.config.json and *.compile.ts files exist.',
+    docsUrl: ruleDocsUrl(RuleId.ContractFilesExist),
+    defaultSeverity: Severity.Error,
+    inputs: ['tact.config.json', '**/*.compile.ts', 'contracts/**'],
+    scope: 'project',
+    run: ({ projectRoot, index }) => checkContractFilesExist(projectRoot, index)
+};
@@ -2,8 +2,9 @@ import fs from 'fs';
 import path from 'path';
 import { LinterError, ErrorType } from '../types'; // Assuming types are defined in src/types.ts
 import chalk from 'chalk';
+import { findInstalledPackage } from '../utils/packages';
 
-const REQUIRED_DEP = '@ton-ai-core/blueprint';
+export const REQUIRED_DEP = '@ton-ai-core/blueprint';
 const REQUIRED_CONFIG = 'blueprint.config.ts';
 const REQUIRED_NODE_MODULES_DIR = path.join('node_modules', '@ton-ai-core', 'blueprint');
 
@@ -20,7 +21,8 @@ export function validateProjectStructure(projectRoot: string): LinterError[] {
         errors.push({
             type: ErrorType.StructureValidation,
             file: projectRoot,
-            message: `Missing 'package.json'`
+            message: `Missing 'package.json'`,
+            code: 'missing-package-json'
         });
         return errors; // Cannot proceed without package.json
     }
@@ -34,14 +36,17 @@ export function validateProjectStructure(projectRoot: string): LinterError[] {
             errors.push({
                 type: ErrorType.StructureValidation,
                 file: packageJsonPath,
-                message: `Key dependency '${REQUIRED_DEP}' not found.`
+                message: `Key dependency '${REQUIRED_DEP}' not found.`,
+                code: 'missing-dependency',
+                data: { dependency: REQUIRED_DEP }
             });
         }
     } catch (error: any) {
         errors.push({
             type: ErrorType.StructureValidation,
             file: packageJsonPath,
-            message: `Error reading or parsing: ${error.message || error}`
+            message: `Error reading or parsing: ${error.message || error}`,
+            code: 'invalid-package-json'
         });
     }
 
@@ -50,16 +55,20 @@ export function validateProjectStructure(projectRoot: string): LinterError[] {
         errors.push({
             type: ErrorType.StructureValidation,
             file: projectRoot,
-            message: `Configuration file '${REQUIRED_CONFIG}' not found.`
+            message: `Configuration file '${REQUIRED_CONFIG}' not found.`,
+            code: 'missing-config',
+            data: { file: REQUIRED_CONFIG }
         });
     }
 
-    const blueprintModulePath = path.join(projectRoot, REQUIRED_NODE_MODULES_DIR);
-    if (!fs.existsSync(blueprintModulePath)) {
+    // Looked up as Node resolves it, so copies hoisted to a workspace root count
+    if (!findInstalledPackage(projectRoot, REQUIRED_DEP)) {
         errors.push({
             type: ErrorType.StructureValidation,
             file: projectRoot,
-            message: `Local blueprint installation not found at '${REQUIRED_NODE_MODULES_DIR}'. Did you run 'npm install'?`
+            message: `Local blueprint installation not found at '${REQUIRED_NODE_MODULES_DIR}' of the project or a parent directory. Did you run 'npm install'?`,
+            code: 'not-installed',
+            data: { path: REQUIRED_NODE_MODULES_DIR }
         });
     }
 
@@ -1,8 +1,9 @@
 import path from 'path';
-import { glob } from 'glob';
 // import chalk from 'chalk'; // No longer used for printing here
 import { getNormalizedBaseName } from '../utils/normalizeName';
-import { LinterError, ErrorType } from '../types';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
 
 // Default configuration - could be extended via command-line args or config file
 const DEFAULT_DIRS = ['contracts', 'wrappers', 'scripts', 'tests'];
@@ -23,34 +24,18 @@ interface FileInfo {
 /**
  * Finds all relevant files in the specified directories.
  */
-async function findFiles(projectRoot: string, targetDirs: string[]): Promise<FileInfo[]> {
+async function findFiles(index: ProjectIndex, targetDirs: string[], contractExtensions: string[] = CONTRACT_EXTENSIONS): Promise<FileInfo[]> {
+    const projectRoot = index.root;
     const files: FileInfo[] = [];
-    const patterns = targetDirs.flatMap(dir => {
-        const dirPath = path.join(projectRoot, dir);
-        // Use brace expansion for multiple extensions within each directory pattern
-        const contractPattern = path.join(dirPath, `**/*{${CONTRACT_EXTENSIONS.join(',')}}`);
-        const tsPattern = path.join(dirPath, `**/*{${TS_EXTENSIONS.join(',')}}`);
-        // Explicitly handle test extensions separately if needed, but glob supports {}
-        const testPattern = path.join(dirPath, `**/*{${TEST_EXTENSIONS.join(',')}}`);
-
-        // Combine patterns carefully to avoid duplicate searches if extensions overlap (like .ts and .spec.ts)
-        // Let's simplify: find all relevant extensions, then classify
-        const allRelevantExtPattern = path.join(dirPath, `**/*{${[...CONTRACT_EXTENSIONS, ...TS_EXTENSIONS, ...TEST_EXTENSIONS].join(',')}}`);
-
-        // return [contractPattern, tsPattern, testPattern]; // Can lead to duplicates if a dir has multiple types
-        return [allRelevantExtPattern];
+    const patterns = targetDirs.map(dir => {
+        // Patterns are relative to the project root, with '/' separators
+        const relativeDir = path.relative(projectRoot, path.join(projectRoot, dir)).split(path.sep).join('/');
+        // Find all relevant extensions at once, then classify; .ts and .spec.ts overlap
+        return `${relativeDir}/**/*{${[...contractExtensions, ...TS_EXTENSIONS, ...TEST_EXTENSIONS].join(',')}}`;
     });
 
-    // Use absolute paths for glob for consistency, then make relative later
-    const globResults = await glob(patterns.flat(), { nodir: true, ignore: ['**/node_modules/**'], absolute: true });
-
-    for (const absoluteFilePath of globResults) {
-        const relativeFilePath = path.relative(projectRoot, absoluteFilePath);
-        // Ensure we don't include files outside the project root (e.g., due to symlinks potentially)
-        // Though `cwd` in glob should largely prevent this.
-        if (relativeFilePath.startsWith('..')) {
-            continue;
-        }
+    for (const relativeFilePath of index.glob(patterns)) {
+        const absoluteFilePath = path.join(projectRoot, relativeFilePath);
 
         const dir = path.basename(path.dirname(absoluteFilePath)); // Get immediate parent dir name (contracts, wrappers, etc.)
         const ext = path.extname(absoluteFilePath);
@@ -61,7 +46,7 @@ async function findFiles(projectRoot: string, targetDirs: string[]): Promise<Fil
         }
 
         const baseName = path.basename(absoluteFilePath, ext);
-        const isContract = CONTRACT_EXTENSIONS.includes(ext);
+        const isContract = contractExtensions.includes(ext);
         const isTest = TEST_EXTENSIONS.some(testExt => absoluteFilePath.endsWith(testExt));
         // Treat .spec.ts and .test.ts as TS files for scanning, but handle their naming specially
         const isTs = !isTest && TS_EXTENSIONS.includes(ext);
@@ -111,8 +96,9 @@ function performConsistencyCheck(contractFiles: FileInfo[]): LinterError[] {
                 type: ErrorType.NamingConsistency,
                 file: contract.filePath,
                 message: `Contract file should use snake_case. Expected: '${expectedFullName}', Actual: '${actualFullName}'.`,
-                // expected: expectedFullName, // Removed
-                // actual: actualFullName // Removed
+                code: 'not-snake-case',
+                data: { expected: expectedFullName, actual: actualFullName },
+                fix: { kind: 'rename', newName: expectedFullName }
             });
         }
     }
@@ -123,13 +109,17 @@ function performConsistencyCheck(contractFiles: FileInfo[]): LinterError[] {
  * Checks contract file naming consistency within a project.
  * @param projectRoot Absolute path to the project root.
  * @param targetDirs Directories within the project to scan for contracts.
+ * @param contractExtensions File extensions that identify contract files.
+ * @param index The project's file index; built when omitted.
  * @returns A Promise resolving to an array of LinterError objects found.
  */
 export async function checkNamingConsistency(
     projectRoot: string,
-    targetDirs: string[] = DEFAULT_DIRS
+    targetDirs: string[] = DEFAULT_DIRS,
+    contractExtensions: string[] = CONTRACT_EXTENSIONS,
+    index?: ProjectIndex
 ): Promise<LinterError[]> {
-    const files = await findFiles(projectRoot, targetDirs);
+    const files = await findFiles(index || await createProjectIndex(projectRoot), targetDirs, contractExtensions);
     const contractFilesFound = files.filter(f => f.isContract);
 
     if (contractFilesFound.length === 0) {
@@ -138,4 +128,18 @@ export async function checkNamingConsistency(
 
     const errors = performConsistencyCheck(contractFilesFound);
     return errors;
-} 
\ No newline at end of file
+} 
+
+export const contractNamingRule: Rule = {
+    id: RuleId.ContractNaming,
+    description: 'Contract files (.tact, .fc, .func) use snake_case file names.',
+    docsUrl: ruleDocsUrl(RuleId.ContractNaming),
+    defaultSeverity: Severity.Error,
+    optionsSchema: {
+        dirs: { type: 'string[]', description: 'Directories inside the project to scan for contract files.' },
+        extensions: { type: 'string[]', description: 'File extensions that identify contract files.' }
+    },
+    // --dirs on the command line wins over the config
+    run: ({ projectRoot, options, lintOptions, index }) =>
+        checkNamingConsistency(projectRoot, lintOptions.dirs || options.dirs || DEFAULT_DIRS, options.extensions, index)
+};
@@ -7,12 +7,19 @@ const FORBIDDEN_DIRS = ['scripts', 'script', 'contracts', 'contract', 'tests', '
 
 /**
  * Checks the parent directory of the provided path for invalid folders.
- * The parent is inspected only once. If it contains any of MARKER_ITEMS, it
- * will be validated for the presence of FORBIDDEN_DIRS.
+ * The parent is inspected only once. If it contains any of the marker items
+ * (MARKER_ITEMS by default), it will be validated for the presence of the
+ * forbidden directories (FORBIDDEN_DIRS by default).
  * @param startPath Directory from which the linter is executed.
+ * @param markerItems Items that mark the parent as a monorepo root worth checking.
+ * @param forbiddenDirs Directories that must not exist in such a root.
  * @returns Array of LinterError objects if problems are found, otherwise empty array.
  */
-export function checkRootFolder(startPath: string): LinterError[] {
+export function checkRootFolder(
+    startPath: string,
+    markerItems: string[] = MARKER_ITEMS,
+    forbiddenDirs: string[] = FORBIDDEN_DIRS
+): LinterError[] {
     const errors: LinterError[] = [];
     const parentDir = path.dirname(startPath);
 
@@ -20,14 +27,14 @@ export function checkRootFolder(startPath: string): LinterError[] {
         return errors; // reached filesystem root
     }
 
-    const shouldCheck = MARKER_ITEMS.some(item => fs.existsSync(path.join(parentDir, item)));
+    const shouldCheck = markerItems.some(item => fs.existsSync(path.join(parentDir, item)));
     if (!shouldCheck) {
         return errors;
     }
 
     const problematicFolders: string[] = [];
 
-    for (const folder of FORBIDDEN_DIRS) {
+    for (const folder of forbiddenDirs) {
         const folderPath = path.join(parentDir, folder);
         if (fs.existsSync(folderPath) && fs.lstatSync(folderPath).isDirectory()) {
             problematicFolders.push(folder);
@@ -47,7 +54,9 @@ export function checkRootFolder(startPath: string): LinterError[] {
                 '',
                 `Snapshot of the ROOT directory '${path.basename(parentDir)}' structure:`,
                 fsMap
-            ].join('\n')
+            ].join('\n'),
+            code: 'forbidden-dirs',
+            data: { root: parentDir, dirs: problematicFolders }
         });
     }
 
@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+
+import { Command, InvalidArgumentError } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import fs from 'fs';
+import { LinterError, ErrorType, Severity, ReporterContext, LintResult, LintOptions, Reporter } from './types';
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const packageJson = require('../package.json');
+import { lint, CHARACTERISTIC_FOLDERS, DEFAULT_CONCURRENCY } from './lint';
+import { watch } from './watch';
+import { startLspServer } from './lsp/server';
+import { getChangedFiles } from './changedFiles';
+import { getReporter, BUILT_IN_FORMATS } from './reporters';
+import { humanReporter } from './reporters/humanReporter';
+
+function parseMaxWarnings(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+        throw new InvalidArgumentError('Expected an integer.');
+    }
+    return parsed;
+}
+
+function parseConcurrency(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new InvalidArgumentError('Expected a positive integer.');
+    }
+    return parsed;
+}
+
+interface ReportOptions {
+    reporter: Reporter;
+    outputFile?: string;
+    quiet: boolean;
+    maxWarnings: number;
+    fixDryRun: boolean;
+    fix: boolean;
+    writeBaseline: boolean;
+    color: boolean;
+}
+
+/**
+ * Prints the result of a run, writes the output file if any, and works out the exit code.
+ */
+function printReport(result: LintResult, opts: ReportOptions): number {
+    const { reporter, outputFile, maxWarnings } = opts;
+    const machineReadableStdout = reporter !== humanReporter && !outputFile;
+    const reporterContext: ReporterContext = { scanPath: result.scanPath, version: packageJson.version, color: opts.color, rules: result.rules, projects: result.projects };
+
+    if (result.fixes) {
+        result.fixes.skipped.forEach(({ file, newName, reason }) => {
+            console.error(chalk.yellow(`Skipped renaming '${file}' to '${newName}': ${reason}.`));
+        });
+        if (opts.fixDryRun && !opts.fix && result.fixes.diff.length > 0) {
+            // Keep stdout parseable when it carries a machine-readable report
+            (machineReadableStdout ? console.error : console.log)(result.fixes.diff);
+        }
+        if (result.fixes.fixed.length > 0 && !machineReadableStdout) {
+            console.error(chalk.green(`Fixed ${result.fixes.fixed.length} problem(s).`));
+        }
+    }
+
+    if (result.baseline && !machineReadableStdout) {
+        const baselineFile = path.relative(process.cwd(), result.baseline.file) || result.baseline.file;
+        if (opts.writeBaseline) {
+            console.error(chalk.green(`Wrote ${result.baseline.baselined.length} finding(s) to baseline '${baselineFile}'.`));
+        } else if (result.baseline.stale.length > 0) {
+            const staleCount = result.baseline.stale.reduce((sum, entry) => sum + entry.count, 0);
+            console.error(chalk.yellow(`${staleCount} finding(s) recorded in baseline '${baselineFile}' no longer occur. Run with --write-baseline to remove them:`));
+            result.baseline.stale.forEach(entry => {
+                console.error(chalk.yellow(`    - ${entry.file}: ${entry.ruleId}: ${entry.message}${entry.count > 1 ? ` (x${entry.count})` : ''}`));
+            });
+        }
+    }
+
+    const reportedErrors = opts.quiet ? result.findings.filter(err => err.severity === Severity.Error) : result.findings;
+    if (outputFile) {
+        const outputPath = path.resolve(outputFile);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, reporter.format(reportedErrors, { ...reporterContext, color: false }) + '\n', 'utf-8');
+    }
+    if (!machineReadableStdout) {
+        if (reportedErrors.length > 0) {
+            console.error(humanReporter.format(reportedErrors, reporterContext));
+        }
+    } else {
+        // Machine-readable formats are printed even without findings, so consumers always get a valid document
+        const report = reporter.format(reportedErrors, reporterContext);
+        if (report.length > 0) {
+            console.log(report);
+        }
+    }
+
+    // Only errors fail the run, unless warnings exceed --max-warnings
+    if (result.errorCount > 0) {
+        return 1;
+    }
+    if (maxWarnings >= 0 && result.warningCount > maxWarnings) {
+        if (!machineReadableStdout) {
+            console.error(chalk.red(`\nToo many warnings (${result.warningCount}). Maximum allowed is ${maxWarnings}.`));
+        }
+        return 1;
+    }
+    return 0;
+}
+
+async function main() {
+    const program = new Command();
+
+    program
+        .name('blueprint-linter')
+        .version(packageJson.version)
+        .description('Linter for TON Blueprint projects: checks initialization and file naming conventions recursively.')
+        .option('-d, --dirs <dirs>', 'Comma-separated list of directories inside each project to scan for naming consistency (e.g., contracts,wrappers,tests)', (val) => val.split(',').map(d => d.trim()), CHARACTERISTIC_FOLDERS)
+        .argument('[scanPath]', 'Path to scan recursively for Blueprint projects', process.cwd())
+        .option('--json', 'Output errors in JSON format (same as --format json)', false)
+        .option('-f, --format <format>', `Output format: ${BUILT_IN_FORMATS.join(', ')}, or a path or package exporting a reporter`, 'human')
+        .option('-o, --output-file <path>', 'Write the report to a file; human-readable output still goes to the terminal')
+        .option('--max-warnings <number>', 'Number of warnings to trigger a non-zero exit code (-1 for no limit)', parseMaxWarnings, -1)
+        .option('--quiet', 'Report errors only, hiding warnings and info findings', false)
+        .option('--fix', 'Rename misnamed files and update every reference to them', false)
+        .option('--fix-dry-run', 'Print the changes --fix would make as a unified diff without writing them', false)
+        .option('--cache', 'Reuse the results of rules whose files, version and config are unchanged since the last run', false)
+        .option('--cache-location <path>', 'Cache file, or directory to keep it in (default: node_modules/.cache/blueprint-linter)')
+        .option('--baseline <path>', 'Baseline file of known findings not to report (default: blueprint-linter-baseline.json in the scanned directory, if it exists)')
+        .option('--no-baseline', 'Report every finding, ignoring the baseline file')
+        .option('--write-baseline', 'Record the current findings in the baseline file, so that later runs report only new ones', false)
+        .option('--changed', 'Lint only projects and files changed since HEAD, including untracked files', false)
+        .option('--since <ref>', 'Lint only projects and files changed since the branch left this git ref')
+        .option('--staged', 'Lint only projects and files staged for commit', false)
+        .option('--concurrency <number>', `Number of projects to lint at the same time (default: ${DEFAULT_CONCURRENCY})`, parseConcurrency)
+        .option('--no-color', 'Print without colors; also turned off by a non-empty NO_COLOR environment variable')
+        .option('-w, --watch', 'Keep running and re-lint on every change, re-running only the affected rules', false)
+        .action(async (scanPathArg) => {
+            const scanPath = path.resolve(scanPathArg || process.cwd());
+            const opts = program.opts();
+            const reportOptions: ReportOptions = {
+                reporter: getReporter(opts.json ? 'json' : opts.format as string),
+                outputFile: opts.outputFile as string | undefined,
+                quiet: opts.quiet as boolean,
+                maxWarnings: opts.maxWarnings as number,
+                fix: opts.fix as boolean,
+                fixDryRun: opts.fixDryRun as boolean,
+                writeBaseline: opts.writeBaseline as boolean,
+                // See https://no-color.org
+                color: opts.color !== false && !process.env.NO_COLOR,
+            };
+            if (!reportOptions.color) {
+                chalk.level = 0;
+            }
+            const lintOptions: LintOptions = {
+                // --dirs only overrides the config when given explicitly
+                dirs: program.getOptionValueSource('dirs') === 'cli' ? opts.dirs as string[] : undefined,
+                fix: reportOptions.fix,
+                fixDryRun: reportOptions.fixDryRun,
+                cache: opts.cache as boolean,
+                cacheLocation: opts.cacheLocation as string | undefined,
+                // `--no-baseline` gives false; without either flag commander reports true
+                baseline: typeof opts.baseline === 'string' ? opts.baseline : opts.baseline === false ? false as const : undefined,
+                writeBaseline: reportOptions.writeBaseline,
+                concurrency: opts.concurrency as number | undefined,
+            };
+
+            const changedModes = ['changed', 'since', 'staged'].filter(mode => opts[mode]);
+            if (changedModes.length > 1) {
+                program.error('Use only one of --changed, --since and --staged.');
+            }
+            if (changedModes.length > 0) {
+                if (opts.watch || reportOptions.writeBaseline) {
+                    program.error(`--${changedModes[0]} cannot be combined with --watch or --write-baseline.`);
+                }
+                try {
+                    lintOptions.changedFiles = await getChangedFiles(scanPath, { since: opts.since as string | undefined, staged: opts.staged as boolean });
+                } catch (error: any) {
+                    program.error(`Could not list changed files: ${error.message}`);
+                }
+            }
+
+            if (opts.watch) {
+                if (reportOptions.fix || reportOptions.fixDryRun || reportOptions.writeBaseline) {
+                    program.error('--watch cannot be combined with --fix, --fix-dry-run or --write-baseline.');
+                }
+                // Redraw in place when the report goes to a terminal
+                const humanOutput = reportOptions.reporter === humanReporter || !!reportOptions.outputFile;
+                const interactive = humanOutput ? process.stderr.isTTY : process.stdout.isTTY;
+                await watch(scanPath, lintOptions, {
+                    onResult: (result, changedFiles) => {
+                        if (interactive) {
+                            (humanOutput ? process.stderr : process.stdout).write('\x1b[2J\x1b[3J\x1b[H');
+                        }
+                        printReport(result, reportOptions);
+                        if (humanOutput) {
+                            if (result.findings.length === 0) {
+                                console.error(chalk.green('No problems found.'));
+                            }
+                            const changed = changedFiles.length > 0 ? ` after changes to ${changedFiles.map(file => path.relative(scanPath, file) || '.').join(', ')}` : '';
+                            console.error(chalk.dim(`\n[${new Date().toLocaleTimeString()}] Linted${changed}. Watching ${scanPath} for changes...`));
+                        }
+                    },
+                    onError: (error) => console.error(chalk.red(`An unexpected error occurred: ${error.message}`)),
+                });
+                return;
+            }
+
+            const result = await lint(scanPath, lintOptions);
+            process.exit(printReport(result, reportOptions));
+        });
+
+    program
+        .command('lsp')
+        .description('Run a Language Server Protocol server over stdio that publishes findings as editor diagnostics')
+        .option('--stdio', 'Communicate over stdin and stdout (the only transport; accepted for editor clients that pass it)')
+        .action(async () => {
+            // stdout carries the protocol, so nothing else may be printed to it
+            process.exit(await startLspServer(process.stdin, process.stdout));
+        });
+
+    await program.parseAsync(process.argv);
+}
+
+main().catch((error) => {
+    // Handle completely unexpected errors during main execution
+    const basicError: LinterError = {
+        type: ErrorType.StructureValidation,
+        file: 'unknown',
+        message: `An unexpected error occurred: ${error.message || error}`
+    };
+    // Check if json output was requested even for this?
+    // Simpler: just print basic error
+    console.error(chalk.red(basicError.message));
+    process.exit(2);
+});
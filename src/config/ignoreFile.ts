@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { minimatch } from 'minimatch';
+
+export const IGNORE_FILE_NAME = '.blueprintlinterignore';
+
+interface IgnorePattern {
+    pattern: string; // minimatch pattern, relative to the ignore file's directory
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+interface IgnoreFile {
+    baseDir: string;
+    patterns: IgnorePattern[];
+}
+
+/**
+ * Tells whether a path is excluded by `.blueprintlinterignore` files.
+ * @param absolutePath The path to check.
+ * @param isDirectory Whether the path is a directory; looked up on disk when omitted.
+ */
+export type IgnoreMatcher = (absolutePath: string, isDirectory?: boolean) => boolean;
+
+/**
+ * Parses an ignore file in gitignore syntax: `#` comments, `!` negation, a trailing `/` for
+ * directories only, and patterns without a slash matching at any depth.
+ */
+export function parseIgnoreFile(content: string): IgnorePattern[] {
+    const patterns: IgnorePattern[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (line === '' || line.startsWith('#')) continue;
+
+        const negated = line.startsWith('!');
+        if (negated) line = line.slice(1);
+        line = line.replace(/^\\([#!])/, '$1');
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) line = line.slice(0, -1);
+        if (line === '') continue;
+
+        // A slash anywhere but at the end anchors the pattern to the ignore file's directory
+        const anchored = line.includes('/');
+        line = line.replace(/^\//, '');
+        patterns.push({ pattern: anchored ? line : `**/${line}`, negated, directoryOnly });
+    }
+    return patterns;
+}
+
+function isDirectoryOnDisk(file: string): boolean {
+    try {
+        return fs.statSync(file).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Loads every `.blueprintlinterignore` under `scanPath` (outside `node_modules`). Like `.gitignore`
+ * files, each applies to its own directory tree, deeper files take precedence, and nothing inside
+ * an ignored directory can be re-included.
+ */
+export async function loadIgnoreMatcher(scanPath: string): Promise<IgnoreMatcher> {
+    const ignoreFilePaths = await glob(`**/${IGNORE_FILE_NAME}`, { cwd: scanPath, dot: true, absolute: true, ignore: ['**/node_modules/**'] });
+    const ignoreFiles: IgnoreFile[] = ignoreFilePaths
+        .map(file => ({ baseDir: path.dirname(file), patterns: parseIgnoreFile(fs.readFileSync(file, 'utf-8')) }))
+        .sort((a, b) => a.baseDir.length - b.baseDir.length);
+    if (ignoreFiles.length === 0) return () => false;
+
+    const isExcluded = (absolutePath: string, isDirectory: boolean): boolean => {
+        let excluded = false;
+        for (const ignoreFile of ignoreFiles) {
+            if (!absolutePath.startsWith(ignoreFile.baseDir + path.sep)) continue;
+            const relativePath = path.relative(ignoreFile.baseDir, absolutePath).split(path.sep).join('/');
+            for (const { pattern, negated, directoryOnly } of ignoreFile.patterns) {
+                if (directoryOnly && !isDirectory) continue;
+                if (minimatch(relativePath, pattern, { dot: true })) excluded = !negated;
+            }
+        }
+        return excluded;
+    };
+
+    return (absolutePath, isDirectory) => {
+        const target = path.resolve(absolutePath);
+        const scanRoot = path.resolve(scanPath);
+        if (!target.startsWith(scanRoot + path.sep)) return false;
+        const segments = path.relative(scanRoot, target).split(path.sep);
+        // Parents first: a file inside an ignored directory is ignored
+        for (let i = 1; i < segments.length; i++) {
+            if (isExcluded(path.join(scanRoot, ...segments.slice(0, i)), true)) return true;
+        }
+        return isExcluded(target, isDirectory ?? isDirectoryOnDisk(target));
+    };
+}
@@ -0,0 +1,260 @@
+import fs from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { LinterError, ErrorType, LinterConfig, LinterSettings, RuleSetting, RuleToggle, RuleId, Severity } from '../types';
+
+export const CONFIG_FILE_NAMES = ['blueprint-linter.config.json', '.blueprintlinterrc'];
+export const PACKAGE_JSON_CONFIG_KEY = 'blueprintLinter';
+
+const BUILT_IN_RULE_IDS: string[] = Object.values(RuleId);
+
+interface ResolvedOverride {
+    basePath: string; // Directory of the config file that declared the override
+    files: string[];
+    rules: Record<string, RuleSetting>;
+}
+
+export interface ResolvedConfig {
+    settings: LinterSettings;
+    plugins: { name: string; basePath: string }[]; // Plugins with the directory to resolve them from
+    rules: Record<string, RuleSetting>;
+    overrides: ResolvedOverride[];
+    configFiles: string[]; // Config files that were merged, outermost first
+}
+
+export interface RuleConfig {
+    enabled: boolean;
+    severity?: Severity; // Only set when the config names a severity explicitly
+    options: Record<string, any>;
+}
+
+export interface ConfigLoadResult {
+    config: ResolvedConfig;
+    errors: LinterError[];
+}
+
+const configCache = new Map<string, ConfigLoadResult>();
+
+/**
+ * Reads the config declared directly in `dir`, if any.
+ * `blueprint-linter.config.json` wins over `.blueprintlinterrc`, which wins over `package.json#blueprintLinter`.
+ */
+function readConfigInDir(dir: string, errors: LinterError[]): { file: string; config: LinterConfig } | undefined {
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const filePath = path.join(dir, fileName);
+        if (!fs.existsSync(filePath)) continue;
+        try {
+            const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            return { file: filePath, config: validateConfig(config, filePath, errors) };
+        } catch (error: any) {
+            errors.push({
+                type: ErrorType.InvalidConfig,
+                file: filePath,
+                message: `Error reading or parsing ${fileName}: ${error.message || error}`,
+                code: 'invalid-json'
+            });
+            return undefined;
+        }
+    }
+
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+        try {
+            const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+            if (packageJson && packageJson[PACKAGE_JSON_CONFIG_KEY]) {
+                return { file: packageJsonPath, config: validateConfig(packageJson[PACKAGE_JSON_CONFIG_KEY], packageJsonPath, errors) };
+            }
+        } catch {
+            // Broken package.json files are reported by the project structure check
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Drops malformed parts of a config, reporting each of them as an error.
+ */
+function validateConfig(raw: any, file: string, errors: LinterError[]): LinterConfig {
+    const report = (message: string, code = 'invalid-config', data?: Record<string, unknown>) => errors.push({ type: ErrorType.InvalidConfig, file, message, code, data });
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        report('Config must be a JSON object.');
+        return {};
+    }
+
+    const config: LinterConfig = { root: raw.root === true };
+
+    if (raw.settings !== undefined) {
+        if (typeof raw.settings === 'object' && !Array.isArray(raw.settings)) {
+            config.settings = raw.settings;
+        } else {
+            report(`'settings' must be an object.`);
+        }
+    }
+
+    if (raw.plugins !== undefined) {
+        if (Array.isArray(raw.plugins) && raw.plugins.every((plugin: unknown) => typeof plugin === 'string')) {
+            config.plugins = raw.plugins;
+        } else {
+            report(`'plugins' must be an array of package names or paths.`);
+        }
+    }
+
+    const validateRules = (rules: any, where: string): Record<string, RuleSetting> => {
+        const valid: Record<string, RuleSetting> = {};
+        if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+            report(`'${where}' must be an object mapping rule ids to settings.`);
+            return valid;
+        }
+        for (const [ruleId, setting] of Object.entries(rules)) {
+            // Plugin rules ('<plugin>/<rule>') are checked once plugins are loaded
+            if (!ruleId.includes('/') && !BUILT_IN_RULE_IDS.includes(ruleId)) {
+                report(`Unknown rule '${ruleId}' in '${where}'. Known rules: ${BUILT_IN_RULE_IDS.join(', ')}.`, 'unknown-rule', { rule: ruleId });
+                continue;
+            }
+            if (!isValidToggle(Array.isArray(setting) ? setting[0] : setting)) {
+                report(`Invalid setting for rule '${ruleId}' in '${where}'. Use "on", "off", "error", "warning", "info", or ["on", { ...options }].`, 'invalid-rule-setting', { rule: ruleId });
+                continue;
+            }
+            valid[ruleId] = setting as RuleSetting;
+        }
+        return valid;
+    };
+
+    if (raw.rules !== undefined) {
+        config.rules = validateRules(raw.rules, 'rules');
+    }
+
+    if (raw.overrides !== undefined) {
+        if (!Array.isArray(raw.overrides)) {
+            report(`'overrides' must be an array.`);
+        } else {
+            config.overrides = [];
+            raw.overrides.forEach((override: any, index: number) => {
+                const files = override && override.files;
+                if (!(typeof files === 'string' || (Array.isArray(files) && files.every(f => typeof f === 'string')))) {
+                    report(`'overrides[${index}].files' must be a glob pattern or an array of glob patterns.`);
+                    return;
+                }
+                config.overrides!.push({
+                    files,
+                    rules: override.rules === undefined ? {} : validateRules(override.rules, `overrides[${index}].rules`)
+                });
+            });
+        }
+    }
+
+    return config;
+}
+
+const TOGGLE_SEVERITIES: Record<string, Severity> = {
+    error: Severity.Error,
+    warning: Severity.Warning,
+    warn: Severity.Warning,
+    info: Severity.Info
+};
+
+function isValidToggle(value: unknown): boolean {
+    return value === 'on' || value === 'off' || typeof value === 'boolean' || (typeof value === 'string' && value in TOGGLE_SEVERITIES);
+}
+
+/**
+ * Merges `inner` over `outer`: settings and rules are merged key by key,
+ * overrides are appended so that the inner config's overrides apply last.
+ */
+function mergeConfigs(outer: ResolvedConfig, inner: LinterConfig, file: string): ResolvedConfig {
+    const basePath = path.dirname(file);
+    return {
+        settings: { ...outer.settings, ...(inner.settings || {}) },
+        plugins: [...outer.plugins, ...(inner.plugins || []).map(name => ({ name, basePath }))],
+        rules: { ...outer.rules, ...(inner.rules || {}) },
+        overrides: [
+            ...outer.overrides,
+            ...(inner.overrides || []).map(override => ({
+                basePath,
+                files: Array.isArray(override.files) ? override.files : [override.files],
+                rules: override.rules || {}
+            }))
+        ],
+        configFiles: [...outer.configFiles, file]
+    };
+}
+
+/**
+ * Loads the effective config for a directory by collecting every config file
+ * from the directory up to the filesystem root (or the first config with `"root": true`)
+ * and merging them so that the nearest config wins.
+ * @param dir Absolute path of the directory (usually a project root).
+ * @returns The merged config and any errors found while reading config files.
+ */
+export function loadConfig(dir: string): ConfigLoadResult {
+    const absoluteDir = path.resolve(dir);
+    const cached = configCache.get(absoluteDir);
+    if (cached) return cached;
+
+    const errors: LinterError[] = [];
+    const own = readConfigInDir(absoluteDir, errors);
+    const parentDir = path.dirname(absoluteDir);
+
+    let result: ConfigLoadResult;
+    if ((own && own.config.root) || parentDir === absoluteDir) {
+        const empty: ResolvedConfig = { settings: {}, plugins: [], rules: {}, overrides: [], configFiles: [] };
+        result = { config: own ? mergeConfigs(empty, own.config, own.file) : empty, errors };
+    } else {
+        const parent = loadConfig(parentDir);
+        result = {
+            config: own ? mergeConfigs(parent.config, own.config, own.file) : parent.config,
+            errors: [...parent.errors, ...errors]
+        };
+    }
+
+    configCache.set(absoluteDir, result);
+    return result;
+}
+
+/**
+ * Forgets every loaded config, so that the next lookup reads config files from disk again.
+ */
+export function clearConfigCache(): void {
+    configCache.clear();
+}
+
+function matchesOverride(override: ResolvedOverride, targetPath: string): boolean {
+    const relativePath = path.relative(override.basePath, targetPath).split(path.sep).join('/');
+    if (relativePath.startsWith('..')) return false;
+    return override.files.some(pattern =>
+        minimatch(relativePath || '.', pattern, { dot: true }) || minimatch(relativePath, `${pattern}/**`, { dot: true })
+    );
+}
+
+function toRuleConfig(setting: RuleSetting | undefined, previous?: RuleConfig): RuleConfig {
+    if (setting === undefined) {
+        return previous || { enabled: true, options: {} };
+    }
+    const [toggle, options]: [RuleToggle, Record<string, any>?] = Array.isArray(setting) ? setting : [setting, undefined];
+    const severity = typeof toggle === 'string' ? TOGGLE_SEVERITIES[toggle] : undefined;
+    return {
+        enabled: toggle === true || toggle === 'on' || severity !== undefined,
+        // "on" keeps a severity set by an outer config or an earlier override
+        severity: severity || (toggle === 'on' && previous ? previous.severity : undefined),
+        options: options || (previous ? previous.options : {})
+    };
+}
+
+/**
+ * Resolves whether a rule is enabled, and with which severity and options, for a given path.
+ * Rules that are not mentioned in the config are enabled with their default severity and options.
+ * @param config The resolved config.
+ * @param ruleId The rule to resolve.
+ * @param targetPath Absolute path of the project, file or directory being checked.
+ */
+export function resolveRule(config: ResolvedConfig, ruleId: string, targetPath: string): RuleConfig {
+    let ruleConfig = toRuleConfig(config.rules[ruleId]);
+    for (const override of config.overrides) {
+        if (override.rules[ruleId] !== undefined && matchesOverride(override, targetPath)) {
+            ruleConfig = toRuleConfig(override.rules[ruleId], ruleConfig);
+        }
+    }
+    return ruleConfig;
+}
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { createFixture } from '../testing/fixtures';
+import { applyFixPlan, formatFixPlanDiff, planFixes } from './applyFixes';
+
+test('planFixes rewrites compile targets, tact.config.json, Tact imports and TypeScript imports', async () => {
+    const root = createFixture({
+        'contracts/MyCounter.tact': 'import "./messages";\ncontract MyCounter {}\n',
+        'contracts/messages.tact': 'message Add {}\n',
+        'contracts/main.tact': 'import "./MyCounter";\n',
+        'tact.config.json': '{ "projects": [{ "name": "MyCounter", "path": "./contracts/MyCounter.tact", "output": "./build" }] }\n',
+        'wrappers/MyCounter.compile.ts': "export const compile = { lang: 'tact', target: 'contracts/MyCounter.tact' };\n",
+        'wrappers/jettonWallet.ts': 'export class JettonWallet {}\n',
+        'tests/JettonWallet.spec.ts': "import { JettonWallet } from '../wrappers/jettonWallet';\n"
+    });
+    const plan = await planFixes(root, [
+        { from: path.join(root, 'contracts/MyCounter.tact'), to: path.join(root, 'contracts/my_counter.tact') },
+        { from: path.join(root, 'wrappers/jettonWallet.ts'), to: path.join(root, 'wrappers/JettonWallet.ts') }
+    ]);
+    assert.equal(formatFixPlanDiff(plan, root), [
+        'diff --git a/contracts/MyCounter.tact b/contracts/my_counter.tact',
+        'rename from contracts/MyCounter.tact',
+        'rename to contracts/my_counter.tact',
+        'diff --git a/contracts/main.tact b/contracts/main.tact',
+        '--- a/contracts/main.tact',
+        '+++ b/contracts/main.tact',
+        '@@ -1,1 +1,1 @@',
+        '-import "./MyCounter";',
+        '+import "./my_counter";',
+        'diff --git a/tact.config.json b/tact.config.json',
+        '--- a/tact.config.json',
+        '+++ b/tact.config.json',
+        '@@ -1,1 +1,1 @@',
+        '-{ "projects": [{ "name": "MyCounter", "path": "./contracts/MyCounter.tact", "output": "./build" }] }',
+        '+{ "projects": [{ "name": "MyCounter", "path": "./contracts/my_counter.tact", "output": "./build" }] }',
+        'diff --git a/tests/JettonWallet.spec.ts b/tests/JettonWallet.spec.ts',
+        '--- a/tests/JettonWallet.spec.ts',
+        '+++ b/tests/JettonWallet.spec.ts',
+        '@@ -1,1 +1,1 @@',
+        "-import { JettonWallet } from '../wrappers/jettonWallet';",
+        "+import { JettonWallet } from '../wrappers/JettonWallet';",
+        'diff --git a/wrappers/MyCounter.compile.ts b/wrappers/MyCounter.compile.ts',
+        '--- a/wrappers/MyCounter.compile.ts',
+        '+++ b/wrappers/MyCounter.compile.ts',
+        '@@ -1,1 +1,1 @@',
+        "-export const compile = { lang: 'tact', target: 'contracts/MyCounter.tact' };",
+        "+export const compile = { lang: 'tact', target: 'contracts/my_counter.tact' };",
+        'diff --git a/wrappers/jettonWallet.ts b/wrappers/JettonWallet.ts',
+        'rename from wrappers/jettonWallet.ts',
+        'rename to wrappers/JettonWallet.ts'
+    ].join('\n'));
+});
+
+test('planFixes rewrites targets built with constants, templates and path.join(__dirname, ...)', async () => {
+    const root = createFixture({
+        'contracts/JettonWallet.fc': '',
+        'contracts/JettonMinter.fc': '',
+        'wrappers/Jetton.compile.ts': [
+            "import path from 'path';",
+            "const CONTRACTS = path.join(__dirname, '..', 'contracts');",
+            'export const compile = {',
+            "    targets: [path.join(CONTRACTS, 'JettonWallet.fc'), `${__dirname}/../contracts/JettonMinter.fc`],",
+            '};',
+            ''
+        ].join('\n')
+    });
+    const plan = await planFixes(root, [
+        { from: path.join(root, 'contracts/JettonWallet.fc'), to: path.join(root, 'contracts/jetton_wallet.fc') },
+        { from: path.join(root, 'contracts/JettonMinter.fc'), to: path.join(root, 'contracts/jetton_minter.fc') }
+    ]);
+    applyFixPlan(plan);
+    assert.equal(
+        fs.readFileSync(path.join(root, 'wrappers/Jetton.compile.ts'), 'utf-8').split('\n')[3],
+        "    targets: [path.join(CONTRACTS, 'jetton_wallet.fc'), `${__dirname}/../contracts/jetton_minter.fc`],"
+    );
+    assert.deepEqual(fs.readdirSync(path.join(root, 'contracts')).sort(), ['jetton_minter.fc', 'jetton_wallet.fc']);
+});
+
+test('planFixes rewrites FunC includes and skips renames onto existing or colliding names', async () => {
+    const root = createFixture({
+        'contracts/main.fc': '#include "imports/StdLib.fc";\n#include "imports/Params.fc";\n',
+        'contracts/imports/StdLib.fc': '',
+        'contracts/imports/Params.fc': '',
+        'contracts/imports/params.fc': '',
+        'contracts/A.fc': '',
+        'contracts/a_.fc': ''
+    });
+    const plan = await planFixes(root, [
+        { from: path.join(root, 'contracts/imports/StdLib.fc'), to: path.join(root, 'contracts/imports/stdlib.fc') },
+        { from: path.join(root, 'contracts/imports/Params.fc'), to: path.join(root, 'contracts/imports/params.fc') },
+        { from: path.join(root, 'contracts/A.fc'), to: path.join(root, 'contracts/x.fc') },
+        { from: path.join(root, 'contracts/a_.fc'), to: path.join(root, 'contracts/x.fc') }
+    ]);
+    assert.deepEqual(plan.renames.map(rename => path.basename(rename.to)), ['stdlib.fc', 'x.fc']);
+    assert.deepEqual(plan.skipped.map(({ reason }) => reason), ["'params.fc' already exists", 'another file is renamed to the same name']);
+    assert.equal(plan.edits.get(path.join(root, 'contracts/main.fc'))?.after, '#include "imports/stdlib.fc";\n#include "imports/Params.fc";\n');
+});
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import ts from 'typescript';
+import { createUnifiedDiff } from './unifiedDiff';
+import { getCompileTargets } from '../utils/typescriptSource';
+
+export interface FileRename {
+    from: string; // Absolute path
+    to: string; // Absolute path
+}
+
+export interface FixPlan {
+    renames: FileRename[];
+    edits: Map<string, { before: string; after: string }>; // Keyed by absolute path before renaming
+    skipped: { rename: FileRename; reason: string }[];
+}
+
+const TS_IMPORT_REGEX = /(\bfrom\s+|\bimport\s*\(\s*|\brequire\s*\(\s*|\bimport\s+)(['"])(\.{1,2}\/[^'"]*)\2/g;
+const TACT_IMPORT_REGEX = /(\bimport\s+)(["'])([^"']+)\2/g;
+const FUNC_INCLUDE_REGEX = /(#include\s+)(["'])([^"']+)\2/g;
+const TACT_CONFIG_PATH_REGEX = /("path"\s*:\s*")([^"]+)(")/g;
+
+/**
+ * Replaces the last path segment of a reference with the renamed file's name,
+ * keeping the reference's own directory spelling and (missing) extension.
+ */
+function renameReference(reference: string, rename: FileRename, keepExtension: boolean): string {
+    const separatorIndex = reference.lastIndexOf('/');
+    const prefix = separatorIndex >= 0 ? reference.substring(0, separatorIndex + 1) : '';
+    const newName = path.basename(rename.to);
+    return prefix + (keepExtension ? newName : newName.replace(/\.ts$/, ''));
+}
+
+/**
+ * Finds the rename that a reference points at, trying each candidate resolution of the reference.
+ */
+function findRename(candidates: string[], renamesByPath: Map<string, FileRename>): FileRename | undefined {
+    for (const candidate of candidates) {
+        const rename = renamesByPath.get(path.resolve(candidate));
+        if (rename) return rename;
+    }
+    return undefined;
+}
+
+function rewriteTsImports(content: string, fileDir: string, renamesByPath: Map<string, FileRename>): string {
+    return content.replace(TS_IMPORT_REGEX, (match, prefix: string, quote: string, specifier: string) => {
+        const resolved = path.resolve(fileDir, specifier);
+        const rename = findRename([resolved, `${resolved}.ts`], renamesByPath);
+        if (!rename) return match;
+        return `${prefix}${quote}${renameReference(specifier, rename, specifier.endsWith('.ts'))}${quote}`;
+    });
+}
+
+function rewriteContractImports(content: string, regex: RegExp, fileDir: string, renamesByPath: Map<string, FileRename>, defaultExtension: string): string {
+    return content.replace(regex, (match, prefix: string, quote: string, specifier: string) => {
+        const resolved = path.resolve(fileDir, specifier);
+        const rename = findRename([resolved, `${resolved}${defaultExtension}`], renamesByPath);
+        if (!rename) return match;
+        const hasExtension = path.extname(specifier) !== '';
+        const newReference = renameReference(specifier, rename, true);
+        return `${prefix}${quote}${hasExtension ? newReference : newReference.replace(/\.[^./]+$/, '')}${quote}`;
+    });
+}
+
+/**
+ * Rewrites the `target`/`targets` of a compile file that point at a renamed file. Targets are
+ * evaluated as the linter reads them, so constants and `path.join(__dirname, ...)` are followed;
+ * the literal ending with the file name is the one rewritten.
+ */
+function rewriteCompileTargets(content: string, file: string, projectRoot: string, renamesByPath: Map<string, FileRename>): string {
+    const { targetPaths, literals } = getCompileTargets(file, content);
+    const edits: { start: number; end: number; text: string }[] = [];
+    targetPaths.forEach((target, index) => {
+        const rename = findRename([path.resolve(projectRoot, target)], renamesByPath);
+        const literal = literals[index][literals[index].length - 1];
+        if (!rename || !literal || literal.text.split('/').pop() !== path.basename(rename.from)) return;
+        // Inside the quotes, or between `}` and `${` in templates; a constant shared by several targets is rewritten once
+        const start = literal.getStart() + 1;
+        const end = literal.getEnd() - (ts.isTemplateHead(literal) || ts.isTemplateMiddle(literal) ? 2 : 1);
+        if (edits.some(edit => edit.start === start)) return;
+        edits.push({ start, end, text: renameReference(literal.text, rename, true) });
+    });
+    return edits
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), content);
+}
+
+function rewriteTactConfig(content: string, projectRoot: string, renamesByPath: Map<string, FileRename>): string {
+    return content.replace(TACT_CONFIG_PATH_REGEX, (match, prefix: string, value: string, suffix: string) => {
+        const rename = findRename([path.resolve(projectRoot, value)], renamesByPath);
+        if (!rename) return match;
+        return `${prefix}${renameReference(value, rename, true)}${suffix}`;
+    });
+}
+
+function isSameFile(a: string, b: string): boolean {
+    try {
+        const statsA = fs.statSync(a);
+        const statsB = fs.statSync(b);
+        return statsA.dev === statsB.dev && statsA.ino === statsB.ino;
+    } catch {
+        return true; // `b` does not exist yet
+    }
+}
+
+/**
+ * Computes the renames and reference rewrites needed to apply the given renames in a project:
+ * `target`/`targets` in `*.compile.ts`, `path` in `tact.config.json`, Tact `import`,
+ * FunC `#include` and relative TypeScript imports. Renames whose target already exists,
+ * or that collide with another rename, are skipped.
+ * @param projectRoot Absolute path to the project root.
+ * @param requested The renames to apply, with absolute paths.
+ * @returns The plan describing every file operation; nothing is written.
+ */
+export async function planFixes(projectRoot: string, requested: FileRename[]): Promise<FixPlan> {
+    const plan: FixPlan = { renames: [], edits: new Map(), skipped: [] };
+    const targets = new Set<string>();
+
+    for (const rename of requested) {
+        if (rename.from === rename.to || plan.renames.some(r => r.from === rename.from)) continue;
+        // On case-insensitive filesystems the new name of a case-only rename is the file itself
+        const isCaseOnlyRename = rename.from.toLowerCase() === rename.to.toLowerCase() && isSameFile(rename.from, rename.to);
+        if (targets.has(rename.to.toLowerCase())) {
+            plan.skipped.push({ rename, reason: 'another file is renamed to the same name' });
+        } else if (!isCaseOnlyRename && fs.existsSync(rename.to)) {
+            plan.skipped.push({ rename, reason: `'${path.basename(rename.to)}' already exists` });
+        } else {
+            targets.add(rename.to.toLowerCase());
+            plan.renames.push(rename);
+        }
+    }
+
+    if (plan.renames.length === 0) {
+        return plan;
+    }
+
+    const renamesByPath = new Map(plan.renames.map(rename => [path.resolve(rename.from), rename]));
+    const files = await glob('**/*.{ts,tact,fc,func}', { cwd: projectRoot, ignore: ['**/node_modules/**', '**/*.d.ts'], absolute: true, nodir: true });
+    const tactConfigPath = path.join(projectRoot, 'tact.config.json');
+    if (fs.existsSync(tactConfigPath)) {
+        files.push(tactConfigPath);
+    }
+
+    for (const file of files) {
+        const before = fs.readFileSync(file, 'utf-8');
+        const fileDir = path.dirname(file);
+        let after = before;
+
+        if (file === tactConfigPath) {
+            after = rewriteTactConfig(after, projectRoot, renamesByPath);
+        } else if (file.endsWith('.tact')) {
+            after = rewriteContractImports(after, TACT_IMPORT_REGEX, fileDir, renamesByPath, '.tact');
+        } else if (file.endsWith('.fc') || file.endsWith('.func')) {
+            after = rewriteContractImports(after, FUNC_INCLUDE_REGEX, fileDir, renamesByPath, path.extname(file));
+        } else {
+            if (file.endsWith('.compile.ts')) {
+                after = rewriteCompileTargets(after, file, projectRoot, renamesByPath);
+            }
+            after = rewriteTsImports(after, fileDir, renamesByPath);
+        }
+
+        if (after !== before) {
+            plan.edits.set(file, { before, after });
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Writes all edits of a plan, then performs its renames.
+ * Case-only renames go through a temporary name so they also work on case-insensitive filesystems.
+ */
+export function applyFixPlan(plan: FixPlan): void {
+    for (const [file, { after }] of plan.edits) {
+        fs.writeFileSync(file, after, 'utf-8');
+    }
+    for (const rename of plan.renames) {
+        if (rename.from.toLowerCase() === rename.to.toLowerCase()) {
+            const temporaryPath = `${rename.from}.blueprint-linter-rename`;
+            fs.renameSync(rename.from, temporaryPath);
+            fs.renameSync(temporaryPath, rename.to);
+        } else {
+            fs.renameSync(rename.from, rename.to);
+        }
+    }
+}
+
+/**
+ * Formats a plan as a git-style unified diff with paths relative to `baseDir`.
+ */
+export function formatFixPlanDiff(plan: FixPlan, baseDir: string): string {
+    const toDiffPath = (file: string) => path.relative(baseDir, file).split(path.sep).join('/');
+    const renamesByPath = new Map(plan.renames.map(rename => [rename.from, rename]));
+    const files = [...new Set([...plan.renames.map(rename => rename.from), ...plan.edits.keys()])].sort();
+
+    return files
+        .map(file => {
+            const rename = renamesByPath.get(file);
+            const edit = plan.edits.get(file);
+            const content = edit ? edit.before : '';
+            return createUnifiedDiff(toDiffPath(file), toDiffPath(rename ? rename.to : file), content, edit ? edit.after : content);
+        })
+        .filter(diff => diff.length > 0)
+        .join('\n');
+}
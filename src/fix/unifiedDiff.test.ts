@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUnifiedDiff } from './unifiedDiff';
+
+test('createUnifiedDiff shows changed lines with three lines of context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].join('\n') + '\n';
+    const after = before.replace('e', 'E');
+    assert.equal(createUnifiedDiff('x.ts', 'x.ts', before, after), [
+        'diff --git a/x.ts b/x.ts',
+        '--- a/x.ts',
+        '+++ b/x.ts',
+        '@@ -2,7 +2,7 @@',
+        ' b',
+        ' c',
+        ' d',
+        '-e',
+        '+E',
+        ' f',
+        ' g',
+        ' h'
+    ].join('\n'));
+});
+
+test('createUnifiedDiff splits distant changes into hunks', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+    const hunks = createUnifiedDiff('x.ts', 'x.ts', before, after).split('\n').filter(line => line.startsWith('@@'));
+    assert.deepEqual(hunks, ['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+});
+
+test('createUnifiedDiff writes rename headers, with no hunks when the content is unchanged', () => {
+    assert.equal(createUnifiedDiff('wrappers/foo.ts', 'wrappers/Foo.ts', 'x\n', 'x\n'), [
+        'diff --git a/wrappers/foo.ts b/wrappers/Foo.ts',
+        'rename from wrappers/foo.ts',
+        'rename to wrappers/Foo.ts'
+    ].join('\n'));
+    assert.equal(createUnifiedDiff('x.ts', 'x.ts', 'x\n', 'x\n'), '');
+});
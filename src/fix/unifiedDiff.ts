@@ -0,0 +1,84 @@
+const CONTEXT_LINES = 3;
+
+interface Hunk {
+    start: number; // 0-based index of the first line in the hunk
+    end: number; // exclusive
+}
+
+/**
+ * Groups changed line indices into hunks, merging changes whose context would overlap.
+ */
+function collectHunks(changed: number[], lineCount: number): Hunk[] {
+    const hunks: Hunk[] = [];
+    for (const index of changed) {
+        const start = Math.max(0, index - CONTEXT_LINES);
+        const end = Math.min(lineCount, index + CONTEXT_LINES + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && start <= last.end) {
+            last.end = end;
+        } else {
+            hunks.push({ start, end });
+        }
+    }
+    return hunks;
+}
+
+/**
+ * Splits file content into lines; a trailing newline terminates the last line rather than starting a new one.
+ */
+function splitLines(content: string): string[] {
+    const lines = content.split('\n');
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+/**
+ * Builds a git-style unified diff for a single file, including rename headers
+ * when the file moves. Fixes only ever replace text within a line, so lines are
+ * compared one to one; if the line count changes, the whole file becomes one hunk.
+ * @param oldPath Path of the file before the fix, relative to the diff root.
+ * @param newPath Path of the file after the fix.
+ * @param before File content before the fix.
+ * @param after File content after the fix.
+ * @returns The diff text, or an empty string when nothing changes.
+ */
+export function createUnifiedDiff(oldPath: string, newPath: string, before: string, after: string): string {
+    const lines: string[] = [];
+    if (oldPath !== newPath) {
+        lines.push(`diff --git a/${oldPath} b/${newPath}`, `rename from ${oldPath}`, `rename to ${newPath}`);
+    } else if (before !== after) {
+        lines.push(`diff --git a/${oldPath} b/${newPath}`);
+    }
+
+    if (before === after) {
+        return lines.join('\n');
+    }
+
+    const oldLines = splitLines(before);
+    const newLines = splitLines(after);
+    lines.push(`--- a/${oldPath}`, `+++ b/${newPath}`);
+
+    if (oldLines.length !== newLines.length) {
+        lines.push(`@@ -1,${oldLines.length} +1,${newLines.length} @@`);
+        oldLines.forEach(line => lines.push(`-${line}`));
+        newLines.forEach(line => lines.push(`+${line}`));
+        return lines.join('\n');
+    }
+
+    const changed = oldLines.map((line, index) => (line !== newLines[index] ? index : -1)).filter(index => index >= 0);
+    for (const hunk of collectHunks(changed, oldLines.length)) {
+        const length = hunk.end - hunk.start;
+        lines.push(`@@ -${hunk.start + 1},${length} +${hunk.start + 1},${length} @@`);
+        for (let i = hunk.start; i < hunk.end; i++) {
+            if (oldLines[i] === newLines[i]) {
+                lines.push(` ${oldLines[i]}`);
+            } else {
+                lines.push(`-${oldLines[i]}`);
+                lines.push(`+${newLines[i]}`);
+            }
+        }
+    }
+    return lines.join('\n');
+}
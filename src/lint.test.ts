@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { blueprintProject, createFixture } from './testing/fixtures';
+import { lint } from './lint';
+
+test('cached results follow edits to .blueprintlinterignore', async () => {
+    const root = createFixture(blueprintProject({
+        'contracts/counter.fc': '',
+        'contracts/legacy/counter.fc': '',
+        '.blueprintlinterignore': 'contracts/legacy/\n'
+    }));
+    const duplicates = async () => (await lint(root, { cache: true })).findings
+        .filter(finding => finding.ruleId === 'duplicate-contract-names')
+        .map(finding => finding.file);
+
+    assert.deepEqual(await duplicates(), []);
+    fs.writeFileSync(path.join(root, '.blueprintlinterignore'), '');
+    assert.deepEqual(await duplicates(), ['contracts/counter.fc', 'contracts/legacy/counter.fc']);
+    fs.writeFileSync(path.join(root, '.blueprintlinterignore'), 'contracts/legacy/\n');
+    assert.deepEqual(await duplicates(), []);
+});
+
+test('compile targets built with path.resolve are found when linting from another directory', async () => {
+    const project = blueprintProject({
+        'contracts/counter.fc': '',
+        'wrappers/Counter.compile.ts': "import path from 'path';\nexport const compile = { lang: 'func', targets: [path.resolve('contracts/counter.fc')] };\n"
+    });
+    const root = createFixture(Object.fromEntries(Object.entries(project).map(([file, content]) => [`apps/counter/${file}`, content])));
+    assert.notEqual(process.cwd(), path.join(root, 'apps/counter'));
+    const { findings } = await lint(root);
+    assert.deepEqual(findings.filter(finding => finding.ruleId === 'contract-files' || finding.code === 'missing-contract'), []);
+});
+
+test('changed files keep findings of project-scoped rules on files that did not change', async () => {
+    const root = createFixture(blueprintProject({
+        'wrappers/Counter.ts': 'export class Counter {}\n',
+        // Still imports the wrapper under its name before the rename
+        'tests/Counter.spec.ts': "import { Counter } from '../wrappers/OldCounter';\nBlockchain.create();\n"
+    }));
+    const { findings } = await lint(root, { changedFiles: [path.join(root, 'wrappers/Counter.ts')] });
+    assert.deepEqual(
+        findings.filter(finding => finding.ruleId === 'test-files').map(finding => [finding.file, finding.code]),
+        [['tests/Counter.spec.ts', 'missing-wrapper-import']]
+    );
+});
@@ -0,0 +1,469 @@
+import path from 'path';
+import fs from 'fs';
+import { glob } from 'glob';
+import { validateProjectStructure } from './checks/initializationCheck';
+import { getWorkspacePatterns } from './workspaces';
+import { checkRootFolder } from './checks/rootFolderCheck';
+import { createRuleRegistry, loadPlugins, filterRuleOptions, isRuleInput, isExtraRuleInput, DISCOVERY_RULES, BUILT_IN_RULES } from './rules/registry';
+import { loadConfig, resolveRule, clearConfigCache, ResolvedConfig } from './config/loadConfig';
+import { planFixes, applyFixPlan, formatFixPlanDiff, FileRename, FixPlan } from './fix/applyFixes';
+import { countBySeverity } from './reporters/humanReporter';
+import { loadIgnoreMatcher, IgnoreMatcher } from './config/ignoreFile';
+import { collectSuppressionDirectives, applySuppressions } from './suppressions';
+import { Baseline, resolveBaselineFile, loadBaseline, writeBaseline, applyBaseline } from './baseline';
+import { createProjectIndex, ProjectIndex } from './utils/projectIndex';
+import { ResultCache, resolveCacheFile, loadResultCache, saveResultCache, computeCacheKey, getCachedFindings, setCachedFindings } from './cache/resultCache';
+import { LinterError, ErrorType, RuleId, RuleMeta, Severity, LintOptions, LintResult, ProjectResult, ProjectStatus, FixResult } from './types';
+
+export const CHARACTERISTIC_FOLDERS = ['contracts', 'wrappers', 'scripts', 'tests'];
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Applies the config to each error's file: drops errors whose rule is turned off
+ * by an `overrides` entry and resolves the severity of the rest. Severities named
+ * in the config win over the one a rule reported; errors default to `error`.
+ */
+function applyRuleSettings(errors: LinterError[], scanPath: string): LinterError[] {
+    const reported: LinterError[] = [];
+    for (const err of errors) {
+        if (err.ruleId) {
+            const absolutePath = path.resolve(scanPath, err.file);
+            const configDir = fs.existsSync(absolutePath) && fs.lstatSync(absolutePath).isDirectory() ? absolutePath : path.dirname(absolutePath);
+            const ruleConfig = resolveRule(loadConfig(configDir).config, err.ruleId, absolutePath);
+            if (!ruleConfig.enabled) continue;
+            err.severity = ruleConfig.severity || err.severity;
+        }
+        err.severity = err.severity || Severity.Error;
+        reported.push(err);
+    }
+    return reported;
+}
+
+/**
+ * Reports invalid options of an enabled rule against the config file closest to `dir`.
+ * @returns The findings, and the options without the invalid ones, which the rule runs with.
+ */
+function checkRuleOptions(rule: RuleMeta, options: Record<string, any>, config: ResolvedConfig, dir: string): { options: Record<string, any>; errors: LinterError[] } {
+    const configFile = config.configFiles[config.configFiles.length - 1] || dir;
+    const { options: validOptions, problems } = filterRuleOptions(rule, options);
+    const errors = problems.map(message => ({ type: ErrorType.InvalidConfig, file: configFile, message, code: 'invalid-rule-options', data: { rule: rule.id } }));
+    return { options: validOptions, errors };
+}
+
+function toRuleMeta(rule: RuleMeta): RuleMeta {
+    const { id, description, docsUrl, defaultSeverity, optionsSchema, inputs, extraInputs, scope, version } = rule;
+    return { id, description, docsUrl, defaultSeverity, optionsSchema, inputs, extraInputs, scope, version };
+}
+
+interface ProjectRulesResult {
+    errors: LinterError[]; // Paths relative to the scan path
+    configErrors: LinterError[]; // Absolute paths
+    rules: RuleMeta[]; // Every rule registered for the project, including ones that did not run
+}
+
+/**
+ * Maps items with at most `limit` calls of `fn` pending at a time, keeping the results in the order of the items.
+ */
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    return results;
+}
+
+/**
+ * Runs the registered rules, including plugin rules, on a valid project.
+ * @param index The project's file index, shared by every rule.
+ * @param shouldRun Selects the rules to run; all enabled rules run by default.
+ * @param cache When given, rules whose inputs and config are unchanged reuse their cached findings.
+ */
+async function runProjectRules(
+    projectRoot: string,
+    absoluteScanPath: string,
+    options: LintOptions,
+    isIgnored: IgnoreMatcher,
+    index: ProjectIndex,
+    shouldRun: (rule: RuleMeta) => boolean = () => true,
+    cache?: ResultCache
+): Promise<ProjectRulesResult> {
+    const errors: LinterError[] = [];
+    const configErrors: LinterError[] = [];
+    const relativeProjectRoot = path.relative(absoluteScanPath, projectRoot) || '.';
+    const { config: projectConfig } = loadConfig(projectRoot);
+    const registry = createRuleRegistry();
+    configErrors.push(...loadPlugins(registry, projectConfig.plugins));
+
+    const configuredRuleIds = [...Object.keys(projectConfig.rules), ...projectConfig.overrides.flatMap(override => Object.keys(override.rules))];
+    configuredRuleIds
+        .filter(ruleId => ruleId.includes('/') && !registry.has(ruleId))
+        .forEach(ruleId => configErrors.push({
+            type: ErrorType.InvalidConfig,
+            file: projectConfig.configFiles[projectConfig.configFiles.length - 1] || projectRoot,
+            message: `Unknown plugin rule '${ruleId}'. Is the plugin listed in 'plugins'?`,
+            code: 'unknown-rule',
+            data: { rule: ruleId }
+        }));
+
+    for (const rule of registry.values()) {
+        const ruleConfig = resolveRule(projectConfig, rule.id, projectRoot);
+        if (!ruleConfig.enabled || !shouldRun(rule)) continue;
+        const { options: ruleOptions, errors: optionErrors } = checkRuleOptions(rule, ruleConfig.options, projectConfig, projectRoot);
+        configErrors.push(...optionErrors);
+        const cacheKey = cache && computeCacheKey(cache, index, rule, {
+            options: ruleOptions,
+            settings: projectConfig.settings,
+            dirs: options.dirs
+        }, file => isIgnored(file));
+        const cached = cache && cacheKey ? getCachedFindings(cache, relativeProjectRoot, rule.id, cacheKey) : undefined;
+        if (cached) {
+            errors.push(...cached);
+            continue;
+        }
+        try {
+            const ruleErrors = await rule.run({
+                projectRoot,
+                options: ruleOptions,
+                settings: projectConfig.settings,
+                lintOptions: options,
+                isIgnored: file => isIgnored(file),
+                index
+            });
+            ruleErrors.forEach(err => {
+                err.file = path.join(relativeProjectRoot, err.file);
+                err.ruleId = rule.id;
+                err.severity = err.severity || rule.defaultSeverity;
+            });
+            if (cache && cacheKey) setCachedFindings(cache, relativeProjectRoot, rule.id, cacheKey, ruleErrors);
+            errors.push(...ruleErrors);
+        } catch (error: any) {
+            errors.push({
+                type: ErrorType.StructureValidation,
+                file: relativeProjectRoot,
+                message: `Unexpected error in rule '${rule.id}' during checks in ${relativeProjectRoot}: ${error.message || error}`,
+                ruleId: rule.id,
+                code: 'rule-crashed'
+            });
+        }
+    }
+
+    // Rules may report files they found without consulting the ignore file
+    const reported = errors.filter(err => !isIgnored(path.resolve(absoluteScanPath, err.file)));
+    return { errors: reported, configErrors, rules: [...registry.values()].map(toRuleMeta) };
+}
+
+/**
+ * Finds the innermost project root containing `file`.
+ */
+function findProjectRoot(file: string, projectRoots: string[]): string | undefined {
+    return projectRoots
+        .filter(root => file === root || file.startsWith(root + path.sep))
+        .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Whether a file outside a project can be an extra input of its rules: a file in a parent
+ * directory, such as a workspace lockfile, or in `node_modules` of a parent directory.
+ */
+function isOutsideInput(file: string, projectRoot: string): boolean {
+    for (let dir = path.dirname(projectRoot); ; dir = path.dirname(dir)) {
+        if (path.dirname(file) === dir || file.startsWith(path.join(dir, 'node_modules') + path.sep)) return true;
+        if (dir === path.dirname(dir)) return false;
+    }
+}
+
+/**
+ * Keeps the findings that changed files can be blamed for: findings on a changed file or on a
+ * directory containing one, and every finding of 'project'-scoped rules, which only ran on
+ * projects containing a changed file.
+ */
+function scopeToChangedFiles(findings: LinterError[], changedFiles: string[], rules: Map<string, RuleMeta>, scanPath: string): LinterError[] {
+    const changed = new Set(changedFiles);
+    return findings.filter(err => {
+        if (err.ruleId && rules.get(err.ruleId)?.scope === 'project') return true;
+        const absolutePath = path.resolve(scanPath, err.file);
+        return changed.has(absolutePath) || changedFiles.some(file => file.startsWith(absolutePath + path.sep));
+    });
+}
+
+/**
+ * Plans the rename fixes attached to findings and applies them unless this is a dry run.
+ * Fixes are grouped by the innermost project containing the file, so references are only
+ * rewritten inside that project.
+ */
+async function runFixes(findings: LinterError[], projectRoots: string[], scanPath: string, dryRun: boolean): Promise<FixResult> {
+    const result: FixResult = { fixed: [], skipped: [], diff: '' };
+    const renamesByProject = new Map<string, { rename: FileRename; finding: LinterError }[]>();
+
+    for (const finding of findings) {
+        if (!finding.fix) continue;
+        const from = path.resolve(scanPath, finding.file);
+        const projectRoot = findProjectRoot(from, projectRoots);
+        if (!projectRoot) continue;
+        const entries = renamesByProject.get(projectRoot) || [];
+        entries.push({ rename: { from, to: path.join(path.dirname(from), finding.fix.newName) }, finding });
+        renamesByProject.set(projectRoot, entries);
+    }
+
+    const plans: FixPlan[] = [];
+    for (const [projectRoot, entries] of renamesByProject) {
+        const plan = await planFixes(projectRoot, entries.map(entry => entry.rename));
+        plans.push(plan);
+        plan.skipped.forEach(({ rename, reason }) => {
+            result.skipped.push({ file: path.relative(scanPath, rename.from), newName: path.basename(rename.to), reason });
+        });
+        if (dryRun) continue;
+        applyFixPlan(plan);
+        entries
+            .filter(entry => plan.renames.some(rename => rename.from === entry.rename.from))
+            .forEach(entry => result.fixed.push(entry.finding));
+    }
+
+    result.diff = plans.map(plan => formatFixPlanDiff(plan, scanPath)).filter(diff => diff.length > 0).join('\n');
+    return result;
+}
+
+/**
+ * Lints every Blueprint project found under `scanPath`.
+ * Unlike the CLI, this never prints or exits; findings are returned with severities
+ * resolved from the config, and with paths relative to `scanPath`.
+ * @param scanPath Directory to scan recursively for Blueprint projects.
+ * @param options Lint options; see LintOptions.
+ * @returns The findings, the discovered projects and their status.
+ */
+export async function lint(scanPath: string = process.cwd(), options: LintOptions = {}): Promise<LintResult> {
+    const absoluteScanPath = path.resolve(scanPath);
+    const allErrors: LinterError[] = [];
+    const projects: ProjectResult[] = [];
+    const validProjectRoots: string[] = [];
+    const checkedDirs = new Set<string>();
+    const configErrors = new Map<string, LinterError>();
+    const collectConfigErrors = (errors: LinterError[]) => {
+        errors.forEach(err => configErrors.set(`${err.file}\0${err.message}`, err));
+    };
+    const addProject = (root: string, status: ProjectStatus) => {
+        projects.push({ root, relativeRoot: path.relative(absoluteScanPath, root) || '.', status, findings: [], errorCount: 0, warningCount: 0 });
+    };
+
+    // Config files may have changed since a previous call in the same process
+    clearConfigCache();
+    const { config: scanConfig, errors: scanConfigErrors } = loadConfig(absoluteScanPath);
+    collectConfigErrors(scanConfigErrors);
+    const characteristicFolders = scanConfig.settings.characteristicFolders || CHARACTERISTIC_FOLDERS;
+    const isIgnored = await loadIgnoreMatcher(absoluteScanPath);
+
+    // Preliminary check: ensure parent folder doesn't contain forbidden directories
+    const rootFolderRule = resolveRule(scanConfig, RuleId.RootFolder, absoluteScanPath);
+    if (rootFolderRule.enabled) {
+        const { options: rootFolderOptions, errors: optionErrors } = checkRuleOptions(DISCOVERY_RULES.find(rule => rule.id === RuleId.RootFolder)!, rootFolderRule.options, scanConfig, absoluteScanPath);
+        collectConfigErrors(optionErrors);
+        const rootCheckErrors = checkRootFolder(absoluteScanPath, rootFolderOptions.markerItems, rootFolderOptions.forbiddenDirs);
+        rootCheckErrors.forEach(err => err.ruleId = RuleId.RootFolder);
+        allErrors.push(...rootCheckErrors);
+    }
+
+    // 1. Find projects: directories with a package.json or a characteristic folder, in one walk
+    const discovered = await glob(['**/package.json', `**/{${characteristicFolders.join(',')}}/`], { cwd: absoluteScanPath, ignore: ['**/node_modules/**'], absolute: true });
+    const potentialProjectDirs = [...new Set(discovered.map(p => path.dirname(p)))]
+        .filter(dir => !isIgnored(dir, true));
+
+    // 2. Validate projects
+    for (const dir of potentialProjectDirs) {
+        if (checkedDirs.has(dir)) continue;
+        checkedDirs.add(dir);
+
+        const relativeDir = path.relative(absoluteScanPath, dir) || '.';
+        const { config: dirConfig, errors: dirConfigErrors } = loadConfig(dir);
+        collectConfigErrors(dirConfigErrors);
+        const brokenProjectEnabled = resolveRule(dirConfig, RuleId.BrokenProject, dir).enabled;
+        const packageJsonExists = fs.existsSync(path.join(dir, 'package.json'));
+        const existingFolders = characteristicFolders.filter(folder => {
+            const folderPath = path.join(dir, folder);
+            return fs.existsSync(folderPath) && fs.lstatSync(folderPath).isDirectory();
+        });
+        const hasDirectCharacteristicFolders = existingFolders.length > 0;
+        const isScanPath = path.resolve(dir) === absoluteScanPath;
+
+        if (!packageJsonExists) {
+            if (!hasDirectCharacteristicFolders) continue;
+            addProject(dir, 'broken');
+            if (!brokenProjectEnabled) continue;
+            // The top-level scan directory is reported as '.'
+            let fullMessage = `Error in ${isScanPath ? 'top-level directory \'.\'' : `directory '${relativeDir}'`}: Do not use 'npx blueprint create' to scaffold the entire project. Use 'npm create ton@latest' instead.\n`;
+            fullMessage += `  Detected characteristic folders without 'package.json'. Consider removing them:\n`;
+            existingFolders.forEach(folder => {
+                fullMessage += `    - ${path.join(dir, folder)}\n`;
+            });
+            allErrors.push({
+                type: ErrorType.BrokenProject,
+                file: relativeDir,
+                message: fullMessage.trim(),
+                ruleId: RuleId.BrokenProject,
+                code: 'missing-package-json',
+                data: { folders: existingFolders },
+            });
+            continue;
+        }
+
+        // Workspace roots only hold projects; their packages are discovered on their own
+        if (getWorkspacePatterns(dir)) {
+            addProject(dir, 'workspace');
+            continue;
+        }
+
+        // Handle subdirectories OR root with package.json
+        const validationErrors = resolveRule(dirConfig, RuleId.ProjectStructure, dir).enabled ? validateProjectStructure(dir) : [];
+        if (validationErrors.length > 0) {
+            validationErrors.forEach(err => {
+                err.file = path.relative(absoluteScanPath, err.file) || '.';
+                err.ruleId = RuleId.ProjectStructure;
+            });
+            allErrors.push(...validationErrors);
+            addProject(dir, 'invalid');
+        } else {
+            validProjectRoots.push(dir);
+            addProject(dir, 'valid');
+        }
+    }
+
+    // 3. Run the registered rules on valid projects
+    const knownRules = new Map<string, RuleMeta>([...DISCOVERY_RULES, ...BUILT_IN_RULES].map(rule => [rule.id, toRuleMeta(rule)]));
+    const cache = options.cache ? loadResultCache(resolveCacheFile(absoluteScanPath, options.cacheLocation)) : undefined;
+    const changedFiles = options.changedFiles && options.changedFiles.map(file => path.resolve(file));
+    const projectRuns = await mapConcurrently(validProjectRoots, options.concurrency || DEFAULT_CONCURRENCY, async projectRoot => {
+        const index = await createProjectIndex(projectRoot);
+        // With changed files, only the projects they belong to, and only the rules whose inputs changed
+        let shouldRun: ((rule: RuleMeta) => boolean) | undefined;
+        if (changedFiles) {
+            const projectChanges = changedFiles
+                .filter(file => findProjectRoot(file, validProjectRoots) === projectRoot)
+                .map(file => path.relative(projectRoot, file));
+            if (projectChanges.length === 0 && !changedFiles.some(file => isOutsideInput(file, projectRoot))) return { index };
+            shouldRun = rule => projectChanges.some(file => isRuleInput(rule, file)) ||
+                changedFiles.some(file => isExtraRuleInput(rule, projectRoot, file));
+        }
+        return { index, result: await runProjectRules(projectRoot, absoluteScanPath, options, isIgnored, index, shouldRun, cache) };
+    });
+    // Collected in project order, so the output does not depend on which project finished first
+    for (const { result: projectResult } of projectRuns) {
+        if (!projectResult) continue;
+        collectConfigErrors(projectResult.configErrors);
+        projectResult.rules.forEach(rule => knownRules.set(rule.id, rule));
+        allErrors.push(...projectResult.errors);
+    }
+    if (cache) saveResultCache(cache, !!changedFiles);
+
+    // 4. Final Result
+    configErrors.forEach(err => allErrors.push({ ...err, file: path.relative(absoluteScanPath, err.file) || '.' }));
+    const directives = await collectSuppressionDirectives(absoluteScanPath, projectRuns.map(run => run.index), isIgnored);
+    const suppressed = applySuppressions(applyRuleSettings(allErrors, absoluteScanPath), directives);
+    let findings = [...suppressed.findings, ...applyRuleSettings(suppressed.unused, absoluteScanPath)];
+    if (changedFiles) {
+        findings = scopeToChangedFiles(findings, changedFiles, knownRules, absoluteScanPath);
+    }
+
+    let fixes: FixResult | undefined;
+    if (options.fix || options.fixDryRun) {
+        fixes = await runFixes(findings, validProjectRoots, absoluteScanPath, !options.fix);
+        const fixed = new Set(fixes.fixed);
+        findings = findings.filter(err => !fixed.has(err));
+    }
+
+    let baseline: Baseline | undefined;
+    const baselineFile = resolveBaselineFile(absoluteScanPath, options.baseline || undefined);
+    if (options.writeBaseline) {
+        baseline = writeBaseline(baselineFile, absoluteScanPath, findings);
+    } else if (options.baseline !== false) {
+        try {
+            baseline = loadBaseline(baselineFile);
+        } catch (error: any) {
+            findings.push({
+                type: ErrorType.InvalidConfig,
+                file: path.relative(absoluteScanPath, baselineFile),
+                message: `Error reading baseline: ${error.message || error}`,
+                code: 'invalid-baseline',
+                severity: Severity.Error
+            });
+        }
+    }
+
+    const result = buildLintResult(absoluteScanPath, findings, projects, [...knownRules.values()], fixes, baseline);
+    // Entries of files and rules that were not checked would all look stale
+    if (changedFiles && result.baseline) result.baseline.stale = [];
+    return result;
+}
+
+/**
+ * Assembles a LintResult, attaching each finding to the innermost project that contains it.
+ * Findings already attached to `projects` are replaced.
+ * @param baseline Findings it records are moved to `result.baseline.baselined`.
+ */
+export function buildLintResult(
+    absoluteScanPath: string,
+    allFindings: LinterError[],
+    projects: ProjectResult[],
+    rules: RuleMeta[],
+    fixes?: FixResult,
+    baseline?: Baseline
+): LintResult {
+    const { findings, baselined, stale } = baseline
+        ? applyBaseline(allFindings, baseline, absoluteScanPath)
+        : { findings: allFindings, baselined: [], stale: [] };
+
+    projects.forEach(project => {
+        project.findings = [];
+        project.errorCount = 0;
+        project.warningCount = 0;
+    });
+    const projectRoots = projects.map(project => project.root);
+    for (const finding of findings) {
+        const projectRoot = findProjectRoot(path.resolve(absoluteScanPath, finding.file), projectRoots);
+        const project = projects.find(p => p.root === projectRoot);
+        if (!project) continue;
+        project.findings.push(finding);
+        if (finding.severity === Severity.Error) project.errorCount++;
+        if (finding.severity === Severity.Warning) project.warningCount++;
+    }
+
+    return {
+        scanPath: absoluteScanPath,
+        findings,
+        projects,
+        rules,
+        errorCount: countBySeverity(findings, Severity.Error),
+        warningCount: countBySeverity(findings, Severity.Warning),
+        infoCount: countBySeverity(findings, Severity.Info),
+        fixes,
+        baseline: baseline && { file: baseline.file, baselined, stale }
+    };
+}
+
+/**
+ * Re-runs some rules of a project found by a previous `lint()` call, without discovering
+ * projects again. Config and ignore files are assumed unchanged since that call, so config
+ * errors and unused suppressions are not reported.
+ * @param scanPath The scan path of the previous call.
+ * @param projectRoot Absolute path of a project the previous call found valid.
+ * @param ruleIds Rules to run.
+ * @param isIgnored The ignore matcher of the scan path; loaded again when omitted.
+ * @returns The findings of those rules, with severities resolved, suppressions applied and paths relative to `scanPath`.
+ */
+export async function relintProject(
+    scanPath: string,
+    projectRoot: string,
+    options: LintOptions,
+    ruleIds: string[],
+    isIgnored?: IgnoreMatcher
+): Promise<LinterError[]> {
+    const absoluteScanPath = path.resolve(scanPath);
+    const matcher = isIgnored || await loadIgnoreMatcher(absoluteScanPath);
+    const index = await createProjectIndex(projectRoot);
+    const { errors } = await runProjectRules(projectRoot, absoluteScanPath, options, matcher, index, rule => ruleIds.includes(rule.id));
+    const directives = await collectSuppressionDirectives(absoluteScanPath, [index], matcher);
+    return applySuppressions(applyRuleSettings(errors, absoluteScanPath), directives).findings;
+}
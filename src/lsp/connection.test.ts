@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { createConnection } from './connection';
+
+function frame(message: unknown): Buffer {
+    const body = Buffer.from(JSON.stringify(message), 'utf-8');
+    return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'), body]);
+}
+
+// Splits the framed output back into messages
+function readMessages(output: Buffer): unknown[] {
+    const messages: unknown[] = [];
+    let rest = output;
+    while (rest.length > 0) {
+        const headerEnd = rest.indexOf('\r\n\r\n');
+        const length = Number(/Content-Length: (\d+)/.exec(rest.subarray(0, headerEnd).toString('ascii'))![1]);
+        messages.push(JSON.parse(rest.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf-8')));
+        rest = rest.subarray(headerEnd + 4 + length);
+    }
+    return messages;
+}
+
+async function run(chunks: Buffer[], setup: (connection: ReturnType<typeof createConnection>) => void): Promise<unknown[]> {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const written: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => written.push(chunk));
+    const connection = createConnection(input, output);
+    setup(connection);
+    const listening = connection.listen();
+    chunks.forEach(chunk => input.write(chunk));
+    input.end();
+    await listening;
+    // Let handlers started by the last message answer
+    await new Promise(resolve => setImmediate(resolve));
+    return readMessages(Buffer.concat(written));
+}
+
+test('the connection reassembles messages split across chunks and batched in one chunk', async () => {
+    // Multi-byte characters make the byte length differ from the string length
+    const first = frame({ jsonrpc: '2.0', id: 1, method: 'echo', params: { text: 'héllo ✓' } });
+    const second = frame({ jsonrpc: '2.0', id: 2, method: 'echo', params: { text: 'again' } });
+    const both = Buffer.concat([first, second]);
+    const messages = await run([both.subarray(0, 10), both.subarray(10, first.length + 5), both.subarray(first.length + 5)], connection => {
+        connection.onRequest('echo', params => params.text);
+    });
+    assert.deepEqual(messages, [
+        { jsonrpc: '2.0', id: 1, result: 'héllo ✓' },
+        { jsonrpc: '2.0', id: 2, result: 'again' }
+    ]);
+});
+
+test('the connection answers unknown requests, bad JSON and failing handlers with errors', async () => {
+    const body = Buffer.from('{ nope', 'utf-8');
+    const messages = await run([
+        frame({ jsonrpc: '2.0', id: 1, method: 'unknown' }),
+        Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`), body]),
+        frame({ jsonrpc: '2.0', id: 2, method: 'fail' }),
+        frame({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } })
+    ], connection => {
+        connection.onRequest('fail', () => {
+            throw new Error('broken');
+        });
+    });
+    assert.deepEqual(messages, [
+        { jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Unhandled method unknown' } },
+        { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Invalid JSON' } },
+        { jsonrpc: '2.0', id: 2, error: { code: -32603, message: 'broken' } }
+    ]);
+});
+
+test('notifications reach their handler and get no answer', async () => {
+    const received: unknown[] = [];
+    const messages = await run([frame({ jsonrpc: '2.0', method: 'initialized', params: { ok: true } })], connection => {
+        connection.onNotification('initialized', params => void received.push(params));
+    });
+    assert.deepEqual(received, [{ ok: true }]);
+    assert.deepEqual(messages, []);
+});
@@ -0,0 +1,111 @@
+import { Readable, Writable } from 'stream';
+
+// JSON-RPC 2.0 error codes used by the Language Server Protocol
+const ErrorCodes = {
+    ParseError: -32700,
+    MethodNotFound: -32601,
+    InternalError: -32603
+};
+
+interface Message {
+    jsonrpc: '2.0';
+    id?: number | string | null;
+    method?: string;
+    params?: any;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+export type RequestHandler = (params: any) => unknown | Promise<unknown>;
+export type NotificationHandler = (params: any) => void | Promise<void>;
+
+export interface Connection {
+    onRequest(method: string, handler: RequestHandler): void;
+    onNotification(method: string, handler: NotificationHandler): void;
+    sendNotification(method: string, params: unknown): void;
+    listen(): Promise<void>; // Resolves when the input ends
+}
+
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+/**
+ * A JSON-RPC connection framed the way LSP frames it over stdio: each message is preceded by a
+ * `Content-Length` header. Requests without a handler get a MethodNotFound error; notifications
+ * without one, such as `$/` protocol extensions, are dropped.
+ * @param onError Called with errors thrown by notification handlers, which have nobody to answer to.
+ */
+export function createConnection(input: Readable, output: Writable, onError: (error: Error) => void = () => {}): Connection {
+    const requestHandlers = new Map<string, RequestHandler>();
+    const notificationHandlers = new Map<string, NotificationHandler>();
+
+    const send = (message: Message) => {
+        const body = Buffer.from(JSON.stringify(message), 'utf-8');
+        output.write(`Content-Length: ${body.length}${HEADER_SEPARATOR}`);
+        output.write(body);
+    };
+
+    const dispatch = async (message: Message) => {
+        if (message.method === undefined) return; // Responses to requests we never send
+        const isRequest = message.id !== undefined && message.id !== null;
+        if (!isRequest) {
+            const handler = notificationHandlers.get(message.method);
+            try {
+                await handler?.(message.params);
+            } catch (error: any) {
+                onError(error instanceof Error ? error : new Error(String(error)));
+            }
+            return;
+        }
+        const handler = requestHandlers.get(message.method);
+        if (!handler) {
+            send({ jsonrpc: '2.0', id: message.id, error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` } });
+            return;
+        }
+        try {
+            const result = await handler(message.params);
+            send({ jsonrpc: '2.0', id: message.id, result: result === undefined ? null : result });
+        } catch (error: any) {
+            send({ jsonrpc: '2.0', id: message.id, error: { code: ErrorCodes.InternalError, message: error.message || String(error) } });
+        }
+    };
+
+    const listen = () => new Promise<void>(resolve => {
+        let buffer = Buffer.alloc(0);
+        input.on('data', (chunk: Buffer) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            for (;;) {
+                const headerEnd = buffer.indexOf(HEADER_SEPARATOR);
+                if (headerEnd < 0) return;
+                const length = /Content-Length:\s*(\d+)/i.exec(buffer.subarray(0, headerEnd).toString('ascii'));
+                const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+                if (!length) {
+                    // Not a header we can read; skip it and resynchronize on the next one
+                    buffer = buffer.subarray(bodyStart);
+                    continue;
+                }
+                const bodyEnd = bodyStart + Number(length[1]);
+                if (buffer.length < bodyEnd) return;
+                const body = buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+                buffer = buffer.subarray(bodyEnd);
+
+                let message: Message;
+                try {
+                    message = JSON.parse(body);
+                } catch {
+                    send({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } });
+                    continue;
+                }
+                void dispatch(message);
+            }
+        });
+        input.on('end', () => resolve());
+        input.on('close', () => resolve());
+    });
+
+    return {
+        onRequest: (method, handler) => void requestHandlers.set(method, handler),
+        onNotification: (method, handler) => void notificationHandlers.set(method, handler),
+        sendNotification: (method, params) => send({ jsonrpc: '2.0', method, params }),
+        listen
+    };
+}
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { LinterError, LintOptions, Severity } from '../types';
+import { createIncrementalLinter, findValidProject, IncrementalLinter } from '../watch';
+import { planFixes } from '../fix/applyFixes';
+import { createConnection } from './connection';
+
+// LSP enum values
+const DiagnosticSeverity: Record<Severity, number> = { [Severity.Error]: 1, [Severity.Warning]: 2, [Severity.Info]: 3 };
+const TextDocumentSyncKind = { None: 0 };
+const MessageType = { Error: 1 };
+
+interface Position {
+    line: number; // 0-based
+    character: number; // 0-based, in UTF-16 code units
+}
+
+interface Range {
+    start: Position;
+    end: Position;
+}
+
+interface WorkspaceFolder {
+    root: string; // Absolute path
+    linter?: IncrementalLinter; // Set once the first lint finished
+}
+
+/**
+ * Converts a finding's 1-based location, with an exclusive end, to an LSP range.
+ * Findings with only a line cover that line; findings without one, the start of the file.
+ */
+function toRange(finding: LinterError): Range {
+    if (finding.line === undefined) return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+    const start = { line: finding.line - 1, character: (finding.column || 1) - 1 };
+    if (finding.endLine === undefined) return { start: { line: start.line, character: 0 }, end: { line: start.line + 1, character: 0 } };
+    return { start, end: { line: finding.endLine - 1, character: (finding.endColumn || 1) - 1 } };
+}
+
+function wholeDocumentRange(content: string): Range {
+    const lines = content.split('\n');
+    return { start: { line: 0, character: 0 }, end: { line: lines.length - 1, character: lines[lines.length - 1].length } };
+}
+
+/**
+ * The file an editor shows a finding on. Findings on a project directory, such as a missing
+ * `blueprint.config.ts`, go to its package.json; other directories have no file to show them on.
+ */
+function findingFile(finding: LinterError, scanPath: string): string | undefined {
+    const file = path.resolve(scanPath, finding.file);
+    try {
+        if (!fs.statSync(file).isDirectory()) return file;
+    } catch {
+        return undefined;
+    }
+    const packageJson = path.join(file, 'package.json');
+    return fs.existsSync(packageJson) ? packageJson : undefined;
+}
+
+const toPath = (uri: string) => fileURLToPath(uri);
+const toUri = (file: string) => pathToFileURL(file).href;
+
+/**
+ * Runs a Language Server Protocol server: lints every workspace folder when the client is ready
+ * and publishes the findings as diagnostics, one set per file. Saved, created, deleted and
+ * renamed files re-run the rules they affect, as in watch mode. Findings with a rename fix get
+ * a quick fix that renames the file and rewrites references to it, as `--fix` does.
+ * Files are linted as they are on disk, so unsaved edits are not seen.
+ * @param options Options for every lint; fixes are never applied and the baseline is never written.
+ * @returns The exit code: 0 when the client shut the server down before exiting, 1 otherwise.
+ */
+export async function startLspServer(input: Readable, output: Writable, options: LintOptions = {}): Promise<number> {
+    let folders: WorkspaceFolder[] = [];
+    let initialRoots: string[] = [];
+    // Diagnostics last sent for each file, serialized, so unchanged files are not sent again
+    let published = new Map<string, string>();
+    let shutdownRequested = false;
+    // Lint runs one at a time, in the order the changes arrived
+    let queue: Promise<void> = Promise.resolve();
+
+    const logError = (error: Error) => connection.sendNotification('window/logMessage', { type: MessageType.Error, message: `blueprint-linter: ${error.message}` });
+    const connection = createConnection(input, output, logError);
+    const enqueue = (task: () => Promise<void>) => {
+        queue = queue.then(task).catch(logError);
+        return queue;
+    };
+
+    const publishDiagnostics = () => {
+        const diagnostics = new Map<string, unknown[]>();
+        for (const folder of folders) {
+            if (!folder.linter) continue;
+            const { result } = folder.linter;
+            const docsUrls = new Map(result.rules.map(rule => [rule.id, rule.docsUrl]));
+            for (const finding of result.findings) {
+                const file = findingFile(finding, result.scanPath);
+                if (!file) continue;
+                const uri = toUri(file);
+                const ruleId = finding.ruleId || finding.type;
+                const docsUrl = docsUrls.get(ruleId);
+                const fileDiagnostics = diagnostics.get(uri) || [];
+                fileDiagnostics.push({
+                    range: toRange(finding),
+                    severity: DiagnosticSeverity[finding.severity || Severity.Error],
+                    code: ruleId,
+                    codeDescription: docsUrl ? { href: docsUrl } : undefined,
+                    source: 'blueprint-linter',
+                    message: finding.message,
+                    data: { code: finding.code }
+                });
+                diagnostics.set(uri, fileDiagnostics);
+            }
+        }
+        // Files whose findings are all gone need an empty set to clear them
+        published.forEach((_serialized, uri) => {
+            if (!diagnostics.has(uri)) connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+        });
+        const previous = published;
+        published = new Map();
+        diagnostics.forEach((fileDiagnostics, uri) => {
+            const serialized = JSON.stringify(fileDiagnostics);
+            if (previous.get(uri) !== serialized) connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: fileDiagnostics });
+            published.set(uri, serialized);
+        });
+    };
+
+    const addFolders = (roots: string[]) => enqueue(async () => {
+        for (const root of roots) {
+            if (folders.some(folder => folder.root === root)) continue;
+            const folder: WorkspaceFolder = { root };
+            folders.push(folder);
+            folder.linter = await createIncrementalLinter(root, options);
+        }
+        publishDiagnostics();
+    });
+
+    const update = (files: string[]) => enqueue(async () => {
+        for (const folder of folders) {
+            const changed = files.filter(file => file === folder.root || file.startsWith(folder.root + path.sep));
+            if (folder.linter && changed.length > 0) await folder.linter.update(changed);
+        }
+        publishDiagnostics();
+    });
+
+    connection.onRequest('initialize', params => {
+        const roots: string[] = params?.workspaceFolders?.length
+            ? params.workspaceFolders.map((folder: { uri: string }) => toPath(folder.uri))
+            : params?.rootUri ? [toPath(params.rootUri)]
+            : params?.rootPath ? [params.rootPath]
+            : [process.cwd()];
+        initialRoots = roots.map(root => path.resolve(root));
+        const allFiles = { filters: [{ pattern: { glob: '**/*' } }] };
+        return {
+            capabilities: {
+                textDocumentSync: { openClose: true, change: TextDocumentSyncKind.None, save: { includeText: false } },
+                codeActionProvider: { codeActionKinds: ['quickfix'] },
+                workspace: {
+                    workspaceFolders: { supported: true, changeNotifications: true },
+                    fileOperations: { didCreate: allFiles, didRename: allFiles, didDelete: allFiles }
+                }
+            },
+            serverInfo: { name: 'blueprint-linter' }
+        };
+    });
+
+    // Linting starts once the client accepts notifications
+    connection.onNotification('initialized', () => addFolders(initialRoots));
+    connection.onNotification('textDocument/didSave', params => update([toPath(params.textDocument.uri)]));
+    connection.onNotification('workspace/didRenameFiles', params =>
+        update(params.files.flatMap((file: { oldUri: string; newUri: string }) => [toPath(file.oldUri), toPath(file.newUri)])));
+    connection.onNotification('workspace/didCreateFiles', params => update(params.files.map((file: { uri: string }) => toPath(file.uri))));
+    connection.onNotification('workspace/didDeleteFiles', params => update(params.files.map((file: { uri: string }) => toPath(file.uri))));
+    connection.onNotification('workspace/didChangeWatchedFiles', params => update(params.changes.map((change: { uri: string }) => toPath(change.uri))));
+    connection.onNotification('workspace/didChangeWorkspaceFolders', params => {
+        const removed = new Set<string>(params.event.removed.map((folder: { uri: string }) => path.resolve(toPath(folder.uri))));
+        return enqueue(async () => {
+            folders = folders.filter(folder => !removed.has(folder.root));
+            publishDiagnostics();
+        }).then(() => addFolders(params.event.added.map((folder: { uri: string }) => path.resolve(toPath(folder.uri)))));
+    });
+
+    connection.onRequest('textDocument/codeAction', async params => {
+        // Answer from up-to-date findings
+        await queue;
+        const file = toPath(params.textDocument.uri);
+        const actions: unknown[] = [];
+        for (const folder of folders) {
+            if (!folder.linter) continue;
+            const { result } = folder.linter;
+            const projectRoot = findValidProject(file, result);
+            if (!projectRoot) continue;
+
+            const fixable = result.findings.filter(finding => finding.fix && findingFile(finding, result.scanPath) === file);
+            for (const finding of fixable) {
+                const newName = finding.fix!.newName;
+                const plan = await planFixes(projectRoot, [{ from: file, to: path.join(path.dirname(file), newName) }]);
+                const diagnostics = (params.context?.diagnostics || []).filter((diagnostic: { message: string }) => diagnostic.message === finding.message);
+                if (plan.renames.length === 0) {
+                    actions.push({ title: `Rename to '${newName}'`, kind: 'quickfix', diagnostics, disabled: { reason: plan.skipped[0]?.reason || 'Nothing to rename' } });
+                    continue;
+                }
+                // Edits refer to files by their names before the rename, so they come first
+                const documentChanges = [
+                    ...[...plan.edits].map(([editedFile, { before, after }]) => ({
+                        textDocument: { uri: toUri(editedFile), version: null },
+                        edits: [{ range: wholeDocumentRange(before), newText: after }]
+                    })),
+                    ...plan.renames.map(rename => ({ kind: 'rename', oldUri: toUri(rename.from), newUri: toUri(rename.to) }))
+                ];
+                actions.push({
+                    title: plan.edits.size > 0 ? `Rename to '${newName}' and update ${plan.edits.size} file(s) referring to it` : `Rename to '${newName}'`,
+                    kind: 'quickfix',
+                    diagnostics,
+                    isPreferred: true,
+                    edit: { documentChanges }
+                });
+            }
+        }
+        return actions;
+    });
+
+    connection.onRequest('shutdown', () => {
+        shutdownRequested = true;
+        return null;
+    });
+    const exited = new Promise<void>(resolve => connection.onNotification('exit', () => resolve()));
+
+    await Promise.race([connection.listen(), exited]);
+    return shutdownRequested ? 0 : 1;
+}
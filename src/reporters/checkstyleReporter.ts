@@ -0,0 +1,31 @@
+import { LinterError, Reporter, Severity } from '../types';
+import { escapeXml } from './xml';
+
+/**
+ * Formats findings as Checkstyle XML, grouped by file.
+ */
+function formatCheckstyle(findings: LinterError[]): string {
+    const byFile = new Map<string, LinterError[]>();
+    for (const err of findings) {
+        const fileFindings = byFile.get(err.file) || [];
+        fileFindings.push(err);
+        byFile.set(err.file, fileFindings);
+    }
+
+    const lines = ['<?xml version="1.0" encoding="utf-8"?>', '<checkstyle version="4.3">'];
+    for (const [file, fileFindings] of byFile) {
+        lines.push(`    <file name="${escapeXml(file)}">`);
+        for (const err of fileFindings) {
+            const source = `blueprint-linter.${err.ruleId || err.type}`;
+            lines.push(`        <error line="${err.line || 0}" column="${err.column || 0}" severity="${err.severity || Severity.Error}" message="${escapeXml(err.message)}" source="${escapeXml(source)}" />`);
+        }
+        lines.push('    </file>');
+    }
+    lines.push('</checkstyle>');
+    return lines.join('\n');
+}
+
+export const checkstyleReporter: Reporter = {
+    name: 'checkstyle',
+    format: formatCheckstyle
+};
@@ -0,0 +1,21 @@
+import { LinterError, Reporter, Severity } from '../types';
+
+/**
+ * Formats each finding on a single line, `file:line:column: severity: message [rule-id]`,
+ * for grep and for editors that jump to `file:line:column`. Multi-line messages are joined
+ * into one line.
+ */
+function formatCompact(findings: LinterError[]): string {
+    return findings
+        .map(err => {
+            const location = err.line ? `:${err.line}:${err.column || 1}` : '';
+            const message = err.message.split('\n').map(line => line.trim()).filter(line => line.length > 0).join(' ');
+            return `${err.file}${location}: ${err.severity || Severity.Error}: ${message} [${err.ruleId || err.type}]`;
+        })
+        .join('\n');
+}
+
+export const compactReporter: Reporter = {
+    name: 'compact',
+    format: formatCompact
+};
@@ -0,0 +1,41 @@
+import path from 'path';
+import { LinterError, Reporter, ReporterContext, Severity } from '../types';
+
+const COMMANDS: Record<Severity, string> = {
+    [Severity.Error]: 'error',
+    [Severity.Warning]: 'warning',
+    [Severity.Info]: 'notice'
+};
+
+// Escaping rules for workflow commands, see https://github.com/actions/toolkit/blob/main/packages/core/src/command.ts
+function escapeData(text: string): string {
+    return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(text: string): string {
+    return escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * Formats findings as GitHub Actions workflow commands (`::error file=...::message`),
+ * which show up as annotations on the pull request. File paths are made relative to
+ * the current working directory, which is the repository root in a workflow.
+ */
+function formatGithub(findings: LinterError[], context: ReporterContext): string {
+    return findings
+        .map(err => {
+            const file = path.relative(process.cwd(), path.resolve(context.scanPath, err.file)).split(path.sep).join('/') || '.';
+            const title = `blueprint-linter(${err.ruleId || err.type})`;
+            const location = ([['line', err.line], ['col', err.column], ['endLine', err.endLine], ['endColumn', err.endColumn]] as const)
+                .filter(([, value]) => value !== undefined)
+                .map(([name, value]) => `,${name}=${value}`)
+                .join('');
+            return `::${COMMANDS[err.severity || Severity.Error]} file=${escapeProperty(file)}${location},title=${escapeProperty(title)}::${escapeData(err.message)}`;
+        })
+        .join('\n');
+}
+
+export const githubReporter: Reporter = {
+    name: 'github',
+    format: formatGithub
+};
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import chalk, { Chalk, ChalkInstance } from 'chalk';
+import { LinterError, ProjectResult, Reporter, ReporterContext, Severity } from '../types';
+
+// Source lines shown above and below the line of a finding
+const CODE_FRAME_CONTEXT = 1;
+// Column where the message starts, after `line:column` and the severity
+const LOCATION_WIDTH = 10;
+const SEVERITY_WIDTH = 8;
+
+function severityColor(colors: ChalkInstance, severity: Severity | undefined): (text: string) => string {
+    switch (severity) {
+        case Severity.Warning:
+            return colors.yellow;
+        case Severity.Info:
+            return colors.cyan;
+        default:
+            return colors.red;
+    }
+}
+
+export function countBySeverity(errors: LinterError[], severity: Severity): number {
+    return errors.filter(err => err.severity === severity).length;
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Orders findings by position; findings on the whole file come first
+function compareLocations(a: LinterError, b: LinterError): number {
+    return (a.line || 0) - (b.line || 0) || (a.column || 0) - (b.column || 0);
+}
+
+/**
+ * The innermost project containing a finding, by the paths relative to the scan path.
+ */
+function findProject(file: string, projects: ProjectResult[]): ProjectResult | undefined {
+    return projects
+        .filter(project => project.relativeRoot === '.'
+            ? !file.startsWith('..')
+            : file === project.relativeRoot || file.startsWith(project.relativeRoot + path.sep))
+        .sort((a, b) => b.relativeRoot.length - a.relativeRoot.length)[0];
+}
+
+/**
+ * Groups findings by a key, keeping the keys in sorted order.
+ */
+function groupBy(findings: LinterError[], key: (err: LinterError) => string): [string, LinterError[]][] {
+    const groups = new Map<string, LinterError[]>();
+    for (const err of findings) {
+        const group = groups.get(key(err)) || [];
+        group.push(err);
+        groups.set(key(err), group);
+    }
+    return [...groups].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Replaces the characters in a finding's range with `*`.
+ */
+function redactRange(lines: string[], err: LinterError): void {
+    const endLine = err.endLine || err.line!;
+    for (let line = err.line!; line <= endLine && line <= lines.length; line++) {
+        const text = lines[line - 1];
+        const start = line === err.line ? (err.column || 1) - 1 : 0;
+        const end = line === endLine && err.endColumn ? err.endColumn - 1 : text.length;
+        lines[line - 1] = text.slice(0, start) + '*'.repeat(Math.max(0, end - start)) + text.slice(end);
+    }
+}
+
+/**
+ * Reads the lines of a finding's file for code frames, once per file, with the ranges of
+ * findings marked `redact` hidden.
+ * @returns undefined for directories and files that cannot be read.
+ */
+function createSourceReader(scanPath: string, findings: LinterError[]): (file: string) => string[] | undefined {
+    const sources = new Map<string, string[] | undefined>();
+    return file => {
+        if (!sources.has(file)) {
+            let lines: string[] | undefined;
+            try {
+                lines = fs.readFileSync(path.resolve(scanPath, file), 'utf-8').split(/\r?\n/);
+                findings.filter(err => err.redact && err.line && err.file === file).forEach(err => redactRange(lines!, err));
+            } catch {
+                lines = undefined;
+            }
+            sources.set(file, lines);
+        }
+        return sources.get(file);
+    };
+}
+
+/**
+ * Shows the finding's line with the lines around it, underlining the finding's range
+ * (up to the end of the line when it spans several lines).
+ */
+function formatCodeFrame(err: LinterError, lines: string[], colors: ChalkInstance, indent: string): string[] {
+    const line = err.line!;
+    if (line > lines.length) return [];
+    const first = Math.max(1, line - CODE_FRAME_CONTEXT);
+    const last = Math.min(lines.length, line + CODE_FRAME_CONTEXT);
+    const gutterWidth = String(last).length;
+    const frame: string[] = [];
+    for (let current = first; current <= last; current++) {
+        const text = lines[current - 1];
+        const marker = current === line ? severityColor(colors, err.severity)('>') : ' ';
+        frame.push(`${indent}${marker} ${colors.dim(`${String(current).padStart(gutterWidth)} |`)}${text.length > 0 ? ` ${text}` : ''}`);
+        if (current !== line || !err.column) continue;
+        const start = err.column - 1;
+        const end = err.endLine === line && err.endColumn ? err.endColumn - 1 : text.length;
+        // Keep tabs so the underline lines up with the source
+        const padding = text.slice(0, start).replace(/[^\t]/g, ' ');
+        const underline = '^'.repeat(Math.max(1, end - start));
+        frame.push(`${indent}  ${colors.dim(`${' '.repeat(gutterWidth)} |`)} ${padding}${severityColor(colors, err.severity)(underline)}`);
+    }
+    return frame;
+}
+
+/**
+ * Formats one finding: location, severity, message and rule id, then a code frame when the
+ * finding has a line. Further lines of multi-line messages are indented under the first.
+ */
+function formatFinding(err: LinterError, colors: ChalkInstance, readSource: (file: string) => string[] | undefined): string[] {
+    const color = severityColor(colors, err.severity);
+    const location = err.line ? `${err.line}:${err.column || 1}` : '';
+    const severity = err.severity || Severity.Error;
+    const messageIndent = ' '.repeat(2 + LOCATION_WIDTH + SEVERITY_WIDTH);
+    const [firstLine, ...otherLines] = err.message.split('\n');
+    const ruleId = err.ruleId || err.type;
+
+    const lines = [
+        `  ${colors.dim(location.padEnd(LOCATION_WIDTH))}${color(severity.padEnd(SEVERITY_WIDTH))}${firstLine}  ${colors.dim(ruleId)}`,
+        ...otherLines.map(text => text.trim().length > 0 ? `${messageIndent}${text.trimEnd()}` : '')
+    ];
+    const source = err.line ? readSource(err.file) : undefined;
+    if (source) lines.push(...formatCodeFrame(err, source, colors, messageIndent));
+    return lines;
+}
+
+/**
+ * Formats findings grouped by project, then by file, followed by how many findings each rule
+ * reported and a total. Findings outside any project, such as errors in a config file at the
+ * scan path, come first.
+ */
+function formatHumanReadableErrors(errors: LinterError[], context: ReporterContext): string {
+    if (errors.length === 0) return '';
+
+    const colors = context.color ? chalk : new Chalk({ level: 0 });
+    const readSource = createSourceReader(context.scanPath, errors);
+    const projects = context.projects || [];
+    const lines: string[] = [];
+
+    for (const [projectRoot, projectFindings] of groupBy(errors, err => findProject(err.file, projects)?.relativeRoot || '')) {
+        lines.push('');
+        lines.push(colors.bold.underline(projectRoot === '' ? 'Outside any project' : projectRoot === '.' ? 'Project . (scan path)' : `Project ${projectRoot}`));
+        for (const [file, fileFindings] of groupBy(projectFindings, err => err.file)) {
+            lines.push('');
+            lines.push(colors.bold(file));
+            [...fileFindings].sort(compareLocations).forEach(err => lines.push(...formatFinding(err, colors, readSource)));
+        }
+    }
+
+    // Rules that reported the most findings first
+    const ruleCounts = groupBy(errors, err => err.ruleId || err.type)
+        .map(([ruleId, findings]) => [ruleId, findings.length] as const)
+        .sort(([, a], [, b]) => b - a);
+    const countWidth = String(ruleCounts[0][1]).length;
+    lines.push('');
+    lines.push(colors.bold('Findings by rule:'));
+    ruleCounts.forEach(([ruleId, count]) => lines.push(`  ${String(count).padStart(countWidth)}  ${ruleId}`));
+
+    const errorCount = countBySeverity(errors, Severity.Error);
+    const warningCount = countBySeverity(errors, Severity.Warning);
+    const infoCount = countBySeverity(errors, Severity.Info);
+    const fixableCount = errors.filter(err => err.fix).length;
+    const counts = [plural(errorCount, 'error'), plural(warningCount, 'warning'), ...(infoCount > 0 ? [`${infoCount} info`] : [])].join(', ');
+    const footer = `${plural(errors.length, 'problem')} (${counts}), ${fixableCount} auto-fixable`;
+    lines.push('');
+    lines.push(colors.bold((errorCount > 0 ? colors.red : colors.yellow)(footer)));
+
+    return lines.join('\n');
+}
+
+export const humanReporter: Reporter = {
+    name: 'human',
+    format: formatHumanReadableErrors
+};
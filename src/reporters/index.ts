@@ -0,0 +1,41 @@
+import path from 'path';
+import { Reporter } from '../types';
+import { humanReporter } from './humanReporter';
+import { compactReporter } from './compactReporter';
+import { jsonReporter } from './jsonReporter';
+import { sarifReporter } from './sarifReporter';
+import { junitReporter } from './junitReporter';
+import { checkstyleReporter } from './checkstyleReporter';
+import { githubReporter } from './githubReporter';
+
+const BUILT_IN_REPORTERS: Reporter[] = [humanReporter, compactReporter, jsonReporter, sarifReporter, junitReporter, checkstyleReporter, githubReporter];
+
+export const BUILT_IN_FORMATS = BUILT_IN_REPORTERS.map(reporter => reporter.name);
+
+/**
+ * Looks up a reporter by format name. Names that are not built in are loaded as a module
+ * (a path or an installed package, resolved from `cwd`) exporting a Reporter as `default` or `reporter`.
+ * @param format The format name, module path or package name.
+ * @param cwd Directory to resolve external reporters from.
+ * @throws If the reporter cannot be found or does not implement `format`.
+ */
+export function getReporter(format: string, cwd: string = process.cwd()): Reporter {
+    const builtIn = BUILT_IN_REPORTERS.find(reporter => reporter.name === format);
+    if (builtIn) return builtIn;
+
+    let modulePath: string;
+    try {
+        const request = format.startsWith('.') ? path.resolve(cwd, format) : format;
+        modulePath = require.resolve(request, { paths: [cwd] });
+    } catch {
+        throw new Error(`Unknown format '${format}'. Use one of ${BUILT_IN_FORMATS.join(', ')}, or a path or package exporting a reporter.`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const loaded = require(modulePath);
+    const reporter = loaded && (loaded.default || loaded.reporter || loaded);
+    if (!reporter || typeof reporter.format !== 'function') {
+        throw new Error(`Reporter module '${format}' does not export a 'format(findings, context)' function.`);
+    }
+    return { name: reporter.name || format, format: reporter.format };
+}
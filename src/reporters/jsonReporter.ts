@@ -0,0 +1,6 @@
+import { Reporter } from '../types';
+
+export const jsonReporter: Reporter = {
+    name: 'json',
+    format: findings => JSON.stringify(findings, null, 2)
+};
@@ -0,0 +1,46 @@
+import { LinterError, Reporter, Severity } from '../types';
+import { escapeXml } from './xml';
+
+/**
+ * Formats findings as JUnit XML: one test suite per file and one failing test case per finding.
+ * Info findings are reported as passing test cases with their message as output.
+ */
+function formatJunit(findings: LinterError[]): string {
+    const byFile = new Map<string, LinterError[]>();
+    for (const err of findings) {
+        const fileFindings = byFile.get(err.file) || [];
+        fileFindings.push(err);
+        byFile.set(err.file, fileFindings);
+    }
+
+    const failureCount = findings.filter(err => err.severity !== Severity.Info).length;
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        `<testsuites name="blueprint-linter" tests="${findings.length}" failures="${failureCount}" errors="0">`
+    ];
+
+    for (const [file, fileFindings] of byFile) {
+        const fileFailures = fileFindings.filter(err => err.severity !== Severity.Info).length;
+        lines.push(`    <testsuite name="${escapeXml(file)}" tests="${fileFindings.length}" failures="${fileFailures}" errors="0">`);
+        for (const err of fileFindings) {
+            const ruleId = err.ruleId || err.type;
+            const severity = err.severity || Severity.Error;
+            lines.push(`        <testcase name="${escapeXml(`${file}: ${ruleId}`)}" classname="${escapeXml(ruleId)}">`);
+            if (severity === Severity.Info) {
+                lines.push(`            <system-out>${escapeXml(err.message)}</system-out>`);
+            } else {
+                lines.push(`            <failure type="${severity}" message="${escapeXml(err.message)}">${escapeXml(`${severity}: ${err.message} (${file}${err.line ? `:${err.line}` : ''})`)}</failure>`);
+            }
+            lines.push('        </testcase>');
+        }
+        lines.push('    </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n');
+}
+
+export const junitReporter: Reporter = {
+    name: 'junit',
+    format: formatJunit
+};
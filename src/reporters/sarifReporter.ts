@@ -0,0 +1,78 @@
+import { pathToFileURL } from 'url';
+import { LinterError, Reporter, ReporterContext, Severity } from '../types';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/ton-ai-core/blueprint-linter';
+
+const SARIF_LEVELS: Record<Severity, string> = {
+    [Severity.Error]: 'error',
+    [Severity.Warning]: 'warning',
+    [Severity.Info]: 'note'
+};
+
+function sarifRegion(err: LinterError): Record<string, number> {
+    return {
+        startLine: err.line!,
+        ...(err.column ? { startColumn: err.column } : {}),
+        ...(err.endLine ? { endLine: err.endLine } : {}),
+        ...(err.endColumn ? { endColumn: err.endColumn } : {})
+    };
+}
+
+/**
+ * Formats findings as a SARIF 2.1.0 log, suitable for code-scanning upload.
+ * Paths are relative to `%SRCROOT%`, which points at the scanned directory.
+ */
+function formatSarif(findings: LinterError[], context: ReporterContext): string {
+    const ruleIds = [...new Set(findings.map(err => err.ruleId || err.type))].sort();
+
+    const results = findings.map(err => ({
+        ruleId: err.ruleId || err.type,
+        ruleIndex: ruleIds.indexOf(err.ruleId || err.type),
+        level: SARIF_LEVELS[err.severity || Severity.Error],
+        message: { text: err.message },
+        locations: [
+            {
+                physicalLocation: {
+                    artifactLocation: { uri: err.file.split('\\').join('/'), uriBaseId: '%SRCROOT%' },
+                    // Code scanning requires a region; findings without a location point at the start of the file
+                    region: err.line ? sarifRegion(err) : { startLine: 1 }
+                }
+            }
+        ],
+        ...(err.code ? { properties: { code: err.code, ...(err.data ? { data: err.data } : {}) } } : {})
+    }));
+
+    const log = {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'blueprint-linter',
+                        version: context.version,
+                        informationUri: INFORMATION_URI,
+                        rules: ruleIds.map(id => {
+                            const meta = (context.rules || []).find(rule => rule.id === id);
+                            return meta
+                                ? { id, shortDescription: { text: meta.description }, ...(meta.docsUrl ? { helpUri: meta.docsUrl } : {}) }
+                                : { id };
+                        })
+                    }
+                },
+                originalUriBaseIds: {
+                    '%SRCROOT%': { uri: pathToFileURL(context.scanPath + '/').href }
+                },
+                results
+            }
+        ]
+    };
+
+    return JSON.stringify(log, null, 2);
+}
+
+export const sarifReporter: Reporter = {
+    name: 'sarif',
+    format: formatSarif
+};
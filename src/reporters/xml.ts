@@ -0,0 +1,13 @@
+/**
+ * Escapes text for use in XML attribute values and element content.
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Characters that are not allowed in XML 1.0 at all
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,219 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import ts from 'typescript';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { findInstalledPackage, getInstalledPackageCandidates, getPackageName } from '../utils/packages';
+import { evaluateStaticString, getSourceRange, hasExportModifier, parseTypeScript, unwrap } from '../utils/typescriptSource';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
+
+const BLUEPRINT_CONFIG_FILE = 'blueprint.config.ts';
+const NETWORKS = ['mainnet', 'testnet'];
+// Fields of a custom network, with their allowed values where they are fixed
+const CUSTOM_NETWORK_FIELDS: Record<string, string[] | undefined> = {
+    endpoint: undefined,
+    type: ['mainnet', 'testnet', 'custom'],
+    version: ['v2', 'v4', 'tonapi'],
+    key: undefined
+};
+const LOCAL_MODULE_EXTENSIONS = ['', '.ts', '.js', '/index.ts', '/index.js'];
+
+/**
+ * Finds the exported `config`, `export const config = ...` or `export { config }`.
+ * @returns undefined when there is no such export; `initializer` is unset when its value can't be seen.
+ */
+function findConfigExport(sourceFile: ts.SourceFile): { initializer?: ts.Expression } | undefined {
+    const locals = new Map<string, ts.Expression | undefined>();
+    let exported: ts.Expression | undefined;
+    let found = false;
+    for (const statement of sourceFile.statements) {
+        if (!ts.isVariableStatement(statement)) continue;
+        for (const declaration of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(declaration.name)) continue;
+            locals.set(declaration.name.text, declaration.initializer);
+            if (hasExportModifier(statement) && declaration.name.text === 'config') {
+                exported = declaration.initializer;
+                found = true;
+            }
+        }
+    }
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            const element = statement.exportClause.elements.find(candidate => candidate.name.text === 'config');
+            if (element) {
+                exported = locals.get((element.propertyName || element.name).text);
+                found = true;
+            }
+        }
+    }
+    return found ? { initializer: exported } : undefined;
+}
+
+/**
+ * Maps every imported name to the module it comes from.
+ */
+function collectImports(sourceFile: ts.SourceFile): Map<string, string> {
+    const imports = new Map<string, string>();
+    for (const statement of sourceFile.statements) {
+        if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier) || !statement.importClause) continue;
+        const specifier = statement.moduleSpecifier.text;
+        const { name, namedBindings } = statement.importClause;
+        if (name) imports.set(name.text, specifier);
+        if (namedBindings && ts.isNamespaceImport(namedBindings)) imports.set(namedBindings.name.text, specifier);
+        if (namedBindings && ts.isNamedImports(namedBindings)) {
+            namedBindings.elements.forEach(element => imports.set(element.name.text, specifier));
+        }
+    }
+    return imports;
+}
+
+// The identifier a plugin entry is built from: `new Plugin()`, `plugin()`, `plugins.create()` or `plugin`
+function pluginIdentifier(expression: ts.Expression): ts.Identifier | undefined {
+    let target = unwrap(expression);
+    if (ts.isNewExpression(target) || ts.isCallExpression(target)) target = target.expression;
+    while (ts.isPropertyAccessExpression(target)) target = target.expression;
+    return ts.isIdentifier(target) ? target : undefined;
+}
+
+function findProperty(object: ts.ObjectLiteralExpression, name: string): ts.PropertyAssignment | undefined {
+    return object.properties.find((property): property is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) && property.name.text === name
+    );
+}
+
+function checkPlugins(projectRoot: string, plugins: ts.PropertyAssignment, imports: Map<string, string>, report: (node: ts.Node, message: string, code: string, data?: Record<string, unknown>) => void): void {
+    const list = unwrap(plugins.initializer);
+    if (!ts.isArrayLiteralExpression(list)) {
+        if (!ts.isIdentifier(list)) report(plugins, `'plugins' in ${BLUEPRINT_CONFIG_FILE} must be an array of plugin instances.`, 'invalid-plugins');
+        return;
+    }
+    for (const element of list.elements) {
+        const identifier = pluginIdentifier(element);
+        const specifier = identifier && imports.get(identifier.text);
+        // Plugins defined in the config file itself need nothing installed
+        if (!identifier || !specifier) continue;
+        if (specifier.startsWith('.')) {
+            const modulePath = path.resolve(projectRoot, specifier);
+            if (!LOCAL_MODULE_EXTENSIONS.some(extension => fs.existsSync(modulePath + extension))) {
+                report(element, `Plugin '${identifier.text}' is imported from '${specifier}', which does not exist.`, 'plugin-not-found', { plugin: identifier.text, module: specifier });
+            }
+            continue;
+        }
+        const name = getPackageName(specifier);
+        if (!findInstalledPackage(projectRoot, name)) {
+            report(element, `Plugin '${identifier.text}' is imported from '${name}', which is not installed. Run 'npm install --save-dev ${name}'.`, 'plugin-not-installed', { plugin: identifier.text, package: name });
+        }
+    }
+}
+
+function checkNetwork(network: ts.PropertyAssignment, report: (node: ts.Node, message: string, code: string, data?: Record<string, unknown>, redact?: boolean) => void): void {
+    const value = unwrap(network.initializer);
+    const networkShapes = `'mainnet', 'testnet' or a custom network { endpoint, type?, version?, key? }`;
+    if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) {
+        if (!NETWORKS.includes(value.text)) {
+            report(network, `Network '${value.text}' in ${BLUEPRINT_CONFIG_FILE} is not valid. Use ${networkShapes}.`, 'invalid-network', { network: value.text });
+        }
+        return;
+    }
+    // Networks built at runtime can't be checked
+    if (!ts.isObjectLiteralExpression(value)) return;
+
+    if (!findProperty(value, 'endpoint') && !value.properties.some(ts.isSpreadAssignment)) {
+        report(network, `Custom network in ${BLUEPRINT_CONFIG_FILE} has no 'endpoint'.`, 'missing-endpoint');
+    }
+    for (const property of value.properties) {
+        if (!ts.isPropertyAssignment(property) && !ts.isShorthandPropertyAssignment(property)) continue;
+        const key = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) ? property.name.text : undefined;
+        if (key === undefined) continue;
+        if (!(key in CUSTOM_NETWORK_FIELDS)) {
+            report(property.name, `Unknown key 'network.${key}' in ${BLUEPRINT_CONFIG_FILE}. Known keys: ${Object.keys(CUSTOM_NETWORK_FIELDS).join(', ')}.`, 'unknown-network-key', { key });
+            continue;
+        }
+        if (!ts.isPropertyAssignment(property)) continue;
+
+        const allowed = CUSTOM_NETWORK_FIELDS[key];
+        const literal = evaluateStaticString(property.initializer);
+        if (allowed && literal !== undefined && !allowed.includes(literal)) {
+            report(property, `Invalid 'network.${key}' value '${literal}' in ${BLUEPRINT_CONFIG_FILE}. Use one of: ${allowed.join(', ')}.`, 'invalid-network-value', { key, value: literal });
+        }
+        if (key === 'endpoint' && literal !== undefined && !/^https?:\/\//.test(literal)) {
+            report(property, `'network.endpoint' in ${BLUEPRINT_CONFIG_FILE} must be an http(s) URL, got '${literal}'.`, 'invalid-network-value', { key, value: literal });
+        }
+        // The key itself stays out of the message and of code frames, which may end up in CI logs
+        if (key === 'key' && literal !== undefined && literal.length > 0) {
+            report(property, `'network.key' in ${BLUEPRINT_CONFIG_FILE} is a hardcoded API key. Read it from the environment instead, e.g. 'key: process.env.TONCENTER_API_KEY'.`, 'hardcoded-api-key', undefined, true);
+        }
+    }
+}
+
+/**
+ * The files the plugin checks look at besides the config: candidate paths of local modules the
+ * config imports, and the manifests of the packages it imports wherever they could be installed.
+ * @param projectRoot Absolute path to the project root.
+ */
+export function getBlueprintConfigInputs(projectRoot: string): string[] {
+    const configPath = path.join(projectRoot, BLUEPRINT_CONFIG_FILE);
+    let content: string;
+    try {
+        content = fs.readFileSync(configPath, 'utf-8');
+    } catch {
+        return [];
+    }
+    return [...collectImports(parseTypeScript(configPath, content)).values()].flatMap(specifier => specifier.startsWith('.')
+        ? LOCAL_MODULE_EXTENSIONS.map(extension => path.resolve(projectRoot, specifier) + extension)
+        : getInstalledPackageCandidates(projectRoot, getPackageName(specifier)));
+}
+
+/**
+ * Statically inspects `blueprint.config.ts`: it must export a `config` object, every plugin
+ * must come from an installed package (or an existing local module), and `network` must be
+ * `'mainnet'`, `'testnet'` or a custom network `{ endpoint, type?, version?, key? }` whose
+ * `key` is not written into the file.
+ * @param projectRoot Absolute path to the project root.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkBlueprintConfig(projectRoot: string, index?: ProjectIndex): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const configPath = path.join(projectRoot, BLUEPRINT_CONFIG_FILE);
+    // A missing config is reported by the project structure check
+    if (!fs.existsSync(configPath)) return errors;
+
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const sourceFile = await projectIndex.parseTypeScript(configPath);
+    const report = (node: ts.Node, message: string, code: string, data?: Record<string, unknown>, redact?: boolean) => {
+        errors.push({ type: ErrorType.BlueprintConfig, file: BLUEPRINT_CONFIG_FILE, ...getSourceRange(node), message, code, data, ...(redact ? { redact } : {}) });
+    };
+
+    const exported = findConfigExport(sourceFile);
+    if (!exported) {
+        errors.push({
+            type: ErrorType.BlueprintConfig,
+            file: BLUEPRINT_CONFIG_FILE,
+            message: `${BLUEPRINT_CONFIG_FILE} does not export a 'config' object, so Blueprint ignores it. Expected 'export const config: Config = { ... }'.`,
+            code: 'missing-config-export'
+        });
+        return errors;
+    }
+    const config = exported.initializer && unwrap(exported.initializer);
+    if (!config || !ts.isObjectLiteralExpression(config)) return errors;
+
+    const plugins = findProperty(config, 'plugins');
+    if (plugins) checkPlugins(projectRoot, plugins, collectImports(sourceFile), report);
+    const network = findProperty(config, 'network');
+    if (network) checkNetwork(network, report);
+
+    return errors;
+}
+
+export const blueprintConfigRule: Rule = {
+    id: RuleId.BlueprintConfig,
+    description: 'blueprint.config.ts exports a config whose plugins are installed and whose network is valid and has no hardcoded API key.',
+    docsUrl: ruleDocsUrl(RuleId.BlueprintConfig),
+    defaultSeverity: Severity.Error,
+    inputs: [BLUEPRINT_CONFIG_FILE, 'package.json'],
+    extraInputs: getBlueprintConfigInputs,
+    // Installing a plugin or adding a local one changes findings on the config
+    scope: 'project',
+    run: ({ projectRoot, index }) => checkBlueprintConfig(projectRoot, index)
+};
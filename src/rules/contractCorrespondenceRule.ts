@@ -0,0 +1,168 @@
+import * as path from 'path';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { getNormalizedBaseName, toPascalCase } from '../utils/normalizeName';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { readTactConfigPaths } from '../checks/contractFilesCheck';
+import { getCompileTargets } from '../utils/typescriptSource';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
+
+// A .tact file is a contract when it declares one; other .tact files hold messages, traits or helpers
+export const TACT_CONTRACT_REGEX = /^\s*(?:@\w+(?:\([^)]*\))?\s*)*contract\s+[A-Za-z_]\w*/m;
+// A FunC file is a contract when it has an entry point; other files are libraries such as stdlib.fc
+const FUNC_ENTRY_POINT_REGEX = /\brecv_internal\s*\(/;
+
+const COUNTERPARTS = ['wrapper', 'compile', 'test'] as const;
+type Counterpart = typeof COUNTERPARTS[number];
+
+interface ContractEntry {
+    file: string; // Relative to the project root
+    keys: Set<string>; // Its own key plus the keys of compile files that target it
+    compiled: boolean;
+}
+
+/**
+ * Reduces a snake_case key to a form that ignores how acronyms were split,
+ * so `NFTCollection` (n_f_t_collection) matches `nft_collection`.
+ */
+function looseKey(snakeCaseKey: string): string {
+    return snakeCaseKey.replace(/_/g, '');
+}
+
+/**
+ * Computes the key of a wrapper, compile file or test: the snake_case form of the
+ * file name up to its first dot (FooBar.compile.ts and FooBar.spec.ts both give foo_bar).
+ */
+function tsFileKey(file: string): string {
+    return looseKey(getNormalizedBaseName(path.basename(file).split('.')[0]));
+}
+
+async function findContracts(index: ProjectIndex, isIgnored: (absolutePath: string) => boolean): Promise<string[]> {
+    const contracts: string[] = [];
+    for (const file of index.glob('contracts/**/*.{tact,fc,func}')) {
+        if (isIgnored(path.join(index.root, file))) continue;
+        const content = await index.readFile(path.join(index.root, file));
+        const isContract = file.endsWith('.tact') ? TACT_CONTRACT_REGEX.test(content) : FUNC_ENTRY_POINT_REGEX.test(content);
+        if (isContract) contracts.push(file);
+    }
+    return contracts;
+}
+
+/**
+ * Cross-checks the files that make up each Blueprint contract:
+ * `contracts/foo_bar.tact`, `wrappers/FooBar.ts`, `wrappers/FooBar.compile.ts` and `tests/FooBar.spec.ts`.
+ * A contract also counts as compiled when a compile file (of any name) targets it or
+ * `tact.config.json` lists it; that compile file's name then also matches its wrapper and test.
+ * @param projectRoot Absolute path to the project root.
+ * @param required Which counterparts every contract must have.
+ * @param isIgnored Files to leave out, such as those excluded by `.blueprintlinterignore`.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkContractCorrespondence(
+    projectRoot: string,
+    required: Counterpart[] = [...COUNTERPARTS],
+    isIgnored: (absolutePath: string) => boolean = () => false,
+    index?: ProjectIndex
+): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const ignore = ['**/*.d.ts'];
+    const notIgnored = (file: string) => !isIgnored(path.join(projectRoot, file));
+    const contractFiles = await findContracts(projectIndex, isIgnored);
+    const wrapperFiles = projectIndex.glob('wrappers/**/*.ts', ignore).filter(notIgnored);
+    const testFiles = projectIndex.glob('tests/**/*.{spec,test}.ts', ignore).filter(notIgnored);
+    const compileFiles = wrapperFiles.filter(file => file.endsWith('.compile.ts'));
+    const wrappers = wrapperFiles.filter(file => !file.endsWith('.compile.ts'));
+
+    const contracts: ContractEntry[] = contractFiles.map(file => ({
+        file,
+        keys: new Set([looseKey(getNormalizedBaseName(file))]),
+        compiled: false
+    }));
+    const contractByPath = new Map(contracts.map(contract => [path.resolve(projectRoot, contract.file), contract]));
+
+    for (const tactPath of readTactConfigPaths(projectRoot)) {
+        const contract = contractByPath.get(path.resolve(projectRoot, tactPath));
+        if (contract) contract.compiled = true;
+    }
+
+    for (const compileFile of compileFiles) {
+        const compileFilePath = path.join(projectRoot, compileFile);
+        const content = await projectIndex.readFile(compileFilePath);
+        for (const target of getCompileTargets(compileFilePath, content).targetPaths) {
+            const contract = contractByPath.get(path.resolve(projectRoot, target));
+            if (contract) {
+                contract.compiled = true;
+                contract.keys.add(tsFileKey(compileFile));
+            }
+        }
+    }
+
+    const hasKey = (files: string[], keys: Set<string>) => files.some(file => keys.has(tsFileKey(file)));
+
+    for (const contract of contracts) {
+        const expectedName = toPascalCase(getNormalizedBaseName(contract.file));
+        const missing: { counterpart: Counterpart; expected: string }[] = [];
+        if (required.includes('wrapper') && !hasKey(wrappers, contract.keys)) {
+            missing.push({ counterpart: 'wrapper', expected: `wrappers/${expectedName}.ts` });
+        }
+        if (required.includes('compile') && !contract.compiled && !hasKey(compileFiles, contract.keys)) {
+            missing.push({ counterpart: 'compile', expected: `wrappers/${expectedName}.compile.ts` });
+        }
+        if (required.includes('test') && !hasKey(testFiles, contract.keys)) {
+            missing.push({ counterpart: 'test', expected: `tests/${expectedName}.spec.ts` });
+        }
+        for (const { counterpart, expected } of missing) {
+            const what = counterpart === 'compile' ? 'compile file' : counterpart;
+            errors.push({
+                type: ErrorType.Correspondence,
+                file: contract.file,
+                message: `Contract '${contract.file}' has no ${what}. Expected '${expected}'.`,
+                code: `missing-${counterpart}`,
+                data: { counterpart, expected }
+            });
+        }
+    }
+
+    // Files whose contract doesn't exist
+    const contractKeys = new Set(contracts.flatMap(contract => [...contract.keys]));
+    const orphans: { files: string[]; what: string; counterpart: Counterpart }[] = [
+        { files: wrappers, what: 'Wrapper', counterpart: 'wrapper' },
+        { files: compileFiles, what: 'Compile file', counterpart: 'compile' },
+        { files: testFiles, what: 'Test', counterpart: 'test' }
+    ];
+    for (const { files, what, counterpart } of orphans) {
+        if (!required.includes(counterpart)) continue;
+        for (const file of files) {
+            if (contractKeys.has(tsFileKey(file))) continue;
+            const snakeName = getNormalizedBaseName(path.basename(file).split('.')[0]);
+            errors.push({
+                type: ErrorType.Correspondence,
+                file,
+                message: `${what} '${file}' has no matching contract. Expected 'contracts/${snakeName}.tact', '.fc' or '.func'.`,
+                code: `orphan-${counterpart}`,
+                data: { counterpart, expected: `contracts/${snakeName}` }
+            });
+        }
+    }
+
+    return errors;
+}
+
+export const contractCorrespondenceRule: Rule = {
+    id: RuleId.ContractCorrespondence,
+    description: 'Every contract has a wrapper, a compile file and a test, and every wrapper, compile file and test has a contract.',
+    docsUrl: ruleDocsUrl(RuleId.ContractCorrespondence),
+    defaultSeverity: Severity.Warning,
+    inputs: ['contracts/**', 'wrappers/**', 'tests/**', 'tact.config.json'],
+    scope: 'project',
+    optionsSchema: {
+        require: { type: 'string[]', enum: [...COUNTERPARTS], description: `Counterparts to check: ${COUNTERPARTS.join(', ')}.` }
+    },
+    run: ({ projectRoot, options, isIgnored, index }) => checkContractCorrespondence(
+        projectRoot,
+        options.require ? options.require.filter((c: string): c is Counterpart => (COUNTERPARTS as readonly string[]).includes(c)) : undefined,
+        isIgnored,
+        index
+    )
+};
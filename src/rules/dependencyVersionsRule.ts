@@ -0,0 +1,147 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import ts from 'typescript';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { getJsonProperties, getSourceRange, parseJsonObject } from '../utils/typescriptSource';
+import { findInstalledPackage, findLockfile, getInstalledPackageCandidates, getLockfileCandidates, LOCKFILES, Lockfile, readLockfile } from '../utils/packages';
+import { satisfies } from '../utils/semver';
+import { REQUIRED_DEP } from '../checks/initializationCheck';
+
+// Packages whose versions have to agree for Blueprint projects to build and test
+const TRACKED_PACKAGES = [REQUIRED_DEP, '@ton/core', '@ton/sandbox', '@tact-lang/compiler'];
+// Upstream Blueprint, which the fork replaces
+const UPSTREAM_BLUEPRINT = '@ton/blueprint';
+const DEPENDENCY_GROUPS = ['dependencies', 'devDependencies'];
+// Commands that install from, and add packages with, each package manager
+const INSTALL_COMMANDS: Record<string, { install: string; add: string }> = {
+    'package-lock.json': { install: 'npm install', add: 'npm install --save-dev' },
+    'yarn.lock': { install: 'yarn install', add: 'yarn add --dev' },
+    'pnpm-lock.yaml': { install: 'pnpm install', add: 'pnpm add --save-dev' }
+};
+
+interface Declaration {
+    range: string;
+    property: ts.PropertyAssignment; // The entry in package.json, for locations
+}
+
+// Direct dependencies declared in package.json, by name
+function readDeclarations(packageJson: ts.ObjectLiteralExpression): Map<string, Declaration> {
+    const declarations = new Map<string, Declaration>();
+    for (const group of getJsonProperties(packageJson)) {
+        if (!DEPENDENCY_GROUPS.includes(group.key) || !ts.isObjectLiteralExpression(group.property.initializer)) continue;
+        for (const { key, property } of getJsonProperties(group.property.initializer)) {
+            if (ts.isStringLiteral(property.initializer) && !declarations.has(key)) {
+                declarations.set(key, { range: property.initializer.text, property });
+            }
+        }
+    }
+    return declarations;
+}
+
+/**
+ * Compares the declared ranges of Blueprint and its companion packages (`@ton/core`, `@ton/sandbox`,
+ * `@tact-lang/compiler`) with the installed copies and the lockfile: installed versions outside the
+ * declared range, lockfiles locking a version outside it or other than the installed one, declared
+ * packages that are not installed, peer dependencies of these packages that are missing or
+ * out of range, and upstream `@ton/blueprint` installed next to the fork. Installed copies are
+ * found the way Node resolves them, so hoisted packages count. Ranges that are not semver,
+ * such as tags, paths and git URLs, are not compared.
+ * @param projectRoot Absolute path to the project root.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkDependencyVersions(projectRoot: string): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const packageJsonPath = path.join(projectRoot, 'package.json');
+    let packageJson: ts.ObjectLiteralExpression | undefined;
+    try {
+        const content = await fs.promises.readFile(packageJsonPath, 'utf-8');
+        JSON.parse(content);
+        packageJson = parseJsonObject(packageJsonPath, content);
+    } catch {
+        // Missing and invalid package.json files are reported by the project structure check
+    }
+    if (!packageJson) return errors;
+
+    const report = (node: ts.Node | undefined, message: string, code: string, data?: Record<string, unknown>) => {
+        errors.push({ type: ErrorType.DependencyVersions, file: 'package.json', ...(node ? getSourceRange(node) : {}), message, code, data });
+    };
+
+    const declarations = readDeclarations(packageJson);
+    const tracked = TRACKED_PACKAGES.filter(name => declarations.has(name));
+    let lockfile: Lockfile | undefined;
+    try {
+        lockfile = readLockfile(projectRoot, tracked, Object.fromEntries(tracked.map(name => [name, declarations.get(name)!.range])));
+    } catch (error: any) {
+        const file = path.relative(projectRoot, findLockfile(projectRoot)!.path);
+        errors.push({ type: ErrorType.DependencyVersions, file, message: `Could not read ${file}: ${error.message || error}`, code: 'invalid-lockfile' });
+    }
+    const { install, add } = INSTALL_COMMANDS[lockfile ? path.basename(lockfile.file) : 'package-lock.json'];
+
+    for (const name of tracked) {
+        const { range, property } = declarations.get(name)!;
+        const installed = findInstalledPackage(projectRoot, name);
+        const locked = lockfile?.versions.get(name);
+
+        // A missing Blueprint installation is reported by the project structure check
+        if (!installed && name !== REQUIRED_DEP) {
+            report(property, `'${name}' is declared in package.json but not installed. Run '${install}'.`, 'not-installed', { package: name });
+        }
+        if (installed?.version && satisfies(installed.version, range) === false) {
+            report(property, `'${name}' is installed at ${installed.version}, which does not satisfy the declared range '${range}'. Run '${install}'.`, 'version-drift', { package: name, range, installed: installed.version });
+        }
+        if (lockfile && locked && satisfies(locked, range) === false) {
+            report(property, `${lockfile.file} locks '${name}' at ${locked}, which does not satisfy the declared range '${range}'. Run '${install}' to update the lockfile.`, 'lockfile-drift', { package: name, range, locked });
+        } else if (lockfile && locked && installed?.version && installed.version !== locked) {
+            report(property, `'${name}' is installed at ${installed.version}, but ${lockfile.file} locks ${locked}. Run '${install}' to install the locked version.`, 'install-drift', { package: name, installed: installed.version, locked });
+        }
+
+        for (const [peer, peerRange] of Object.entries(installed?.peerDependencies || {})) {
+            if (installed!.optionalPeers.has(peer)) continue;
+            const peerInstalled = findInstalledPackage(projectRoot, peer);
+            if (!peerInstalled) {
+                report(property, `'${name}' requires the peer dependency '${peer}@${peerRange}', which is not installed. Add it with '${add} ${peer}'.`, 'missing-peer', { package: name, peer, range: peerRange });
+            } else if (peerInstalled.version && satisfies(peerInstalled.version, peerRange) === false) {
+                report(property, `'${name}' requires '${peer}@${peerRange}', but ${peerInstalled.version} is installed.`, 'peer-mismatch', { package: name, peer, range: peerRange, installed: peerInstalled.version });
+            }
+        }
+    }
+
+    const upstream = declarations.get(UPSTREAM_BLUEPRINT);
+    if ((declarations.has(REQUIRED_DEP) || findInstalledPackage(projectRoot, REQUIRED_DEP)) && (upstream || findInstalledPackage(projectRoot, UPSTREAM_BLUEPRINT))) {
+        report(
+            upstream?.property,
+            `Both '${UPSTREAM_BLUEPRINT}' and its fork '${REQUIRED_DEP}' are ${upstream ? 'declared' : 'installed'}. They provide the same 'blueprint' command, and whichever is linked last wins. Remove '${UPSTREAM_BLUEPRINT}'.`,
+            'conflicting-blueprint',
+            { package: UPSTREAM_BLUEPRINT }
+        );
+    }
+
+    return errors;
+}
+
+/**
+ * The files the check reads outside package.json: the manifests of the tracked packages, their
+ * peers and upstream Blueprint wherever they could be installed, and the lockfiles it could use,
+ * including the workspace root's.
+ * @param projectRoot Absolute path to the project root.
+ */
+export function getDependencyVersionsInputs(projectRoot: string): string[] {
+    const names = new Set([...TRACKED_PACKAGES, UPSTREAM_BLUEPRINT]);
+    for (const name of TRACKED_PACKAGES) {
+        Object.keys(findInstalledPackage(projectRoot, name)?.peerDependencies || {}).forEach(peer => names.add(peer));
+    }
+    return [...[...names].flatMap(name => getInstalledPackageCandidates(projectRoot, name)), ...getLockfileCandidates(projectRoot)];
+}
+
+export const dependencyVersionsRule: Rule = {
+    id: RuleId.DependencyVersions,
+    description: 'Blueprint and its companion packages are installed and locked at versions matching package.json, with their peers, and without upstream @ton/blueprint.',
+    docsUrl: ruleDocsUrl(RuleId.DependencyVersions),
+    defaultSeverity: Severity.Error,
+    inputs: ['package.json', ...LOCKFILES],
+    extraInputs: getDependencyVersionsInputs,
+    // Lockfile changes move findings on package.json
+    scope: 'project',
+    run: ({ projectRoot }) => checkDependencyVersions(projectRoot)
+};
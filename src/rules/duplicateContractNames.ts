@@ -1,6 +1,7 @@
-import * as glob from 'glob';
 import * as path from 'path';
-import { LinterError, ErrorType } from '../types';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
 
 function normalizeContractName(filename: string): string {
     // Get the filename without the directory path
@@ -11,22 +12,27 @@ function normalizeContractName(filename: string): string {
     return baseName.toLowerCase().replace(/_/g, '');
 }
 
-export async function lintDuplicateContractNames(projectRoot: string): Promise<LinterError[]> {
+/**
+ * Reports files under `contracts/` whose names collide once case, underscores and extensions are ignored.
+ * @param projectRoot Absolute path to the project root.
+ * @param isIgnored Files to leave out, such as those excluded by `.blueprintlinterignore`.
+ * @param index The project's file index; built when omitted.
+ */
+export async function lintDuplicateContractNames(
+    projectRoot: string,
+    isIgnored: (absolutePath: string) => boolean = () => false,
+    index?: ProjectIndex
+): Promise<LinterError[]> {
     const errors: LinterError[] = [];
-    // Updated pattern to find all files (*) in contracts and subdirectories (**)
-    const pattern = path.join(projectRoot, 'contracts', '**', '*.*'); 
-    // Use absolute paths initially for glob to work correctly regardless of cwd
-    const absolutePattern = path.resolve(projectRoot, 'contracts', '**', '*.*');
-    // Use `withFileTypes: true` to easily filter out directories if glob returns them despite nodir
-    const files = await glob.glob(absolutePattern, { nodir: true, withFileTypes: true });
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    // All files (*) in contracts and subdirectories (**)
+    const files = projectIndex.glob('contracts/**/*.*');
 
     const normalizedNamesMap = new Map<string, string[]>(); // Map normalized name to list of full paths
 
     for (const file of files) {
-        // Ensure we only process files, not directories that might slip through
-        if (!file.isFile()) continue;
-        
-        const fullPath = file.fullpath(); // Get the full path from Dirent object
+        const fullPath = path.join(projectRoot, file);
+        if (isIgnored(fullPath)) continue;
         const normalizedName = normalizeContractName(fullPath);
         
         if (!normalizedNamesMap.has(normalizedName)) {
@@ -48,10 +54,22 @@ export async function lintDuplicateContractNames(projectRoot: string): Promise<L
                     type: ErrorType.NamingConsistency, // Use existing error type
                     file: filePath, // File path relative to projectRoot
                     message: message,
+                    code: 'duplicate-name',
+                    data: { normalizedName, files: relativeFilePaths },
                 });
             });
         }
     }
 
     return errors;
-} 
\ No newline at end of file
+} 
+
+export const duplicateContractNamesRule: Rule = {
+    id: RuleId.DuplicateContractNames,
+    description: 'File names under contracts/ are unique, ignoring case, underscores and extensions.',
+    docsUrl: ruleDocsUrl(RuleId.DuplicateContractNames),
+    defaultSeverity: Severity.Error,
+    inputs: ['contracts/**'],
+    scope: 'project',
+    run: ({ projectRoot, isIgnored, index }) => lintDuplicateContractNames(projectRoot, isIgnored, index)
+};
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { createFixture } from '../testing/fixtures';
+import { checkFuncIncludes } from './funcIncludesRule';
+
+const COMPILE_FILE = "export const compile = { lang: 'func', targets: ['contracts/main.fc'] };\n";
+
+async function findings(root: string, isIgnored?: (absolutePath: string) => boolean) {
+    return (await checkFuncIncludes(root, isIgnored)).map(({ file, code, line, data }) => ({ file, code, line, data }));
+}
+
+test('reports unresolved includes and include cycles, ignoring commented-out includes', async () => {
+    const root = createFixture({
+        'wrappers/Main.compile.ts': COMPILE_FILE,
+        'contracts/main.fc': '#include "imports/a.fc";\n;; #include "gone.fc";\n#include "missing.fc";\n',
+        'contracts/imports/a.fc': '#include "b.fc";\n',
+        'contracts/imports/b.fc': '#include "a.fc";\n'
+    });
+    assert.deepEqual(await findings(root), [
+        { file: 'contracts/main.fc', code: 'unresolved-include', line: 3, data: { specifier: 'missing.fc', resolved: 'contracts/missing.fc' } },
+        { file: 'contracts/imports/a.fc', code: 'include-cycle', line: 1, data: { cycle: ['contracts/imports/a.fc', 'contracts/imports/b.fc'] } }
+    ]);
+});
+
+test('accepts one file included with different relative spellings', async () => {
+    const root = createFixture({
+        'wrappers/Main.compile.ts': COMPILE_FILE,
+        'contracts/main.fc': '#include "imports/stdlib.fc";\n#include "lib/math.fc";\n',
+        'contracts/lib/math.fc': '#include "../imports/stdlib.fc";\n#include "./../imports/stdlib.fc";\n',
+        'contracts/imports/stdlib.fc': ''
+    });
+    assert.deepEqual(await findings(root), []);
+});
+
+test('reports a file included through a symlink and a hard link', async () => {
+    const root = createFixture({
+        'wrappers/Main.compile.ts': COMPILE_FILE,
+        'contracts/main.fc': '#include "imports/stdlib.fc";\n#include "shared/stdlib.fc";\n#include "imports/params.fc";\n#include "imports/params-copy.fc";\n',
+        'contracts/imports/stdlib.fc': '',
+        'contracts/imports/params.fc': ''
+    });
+    fs.symlinkSync(path.join(root, 'contracts/imports'), path.join(root, 'contracts/shared'));
+    fs.linkSync(path.join(root, 'contracts/imports/params.fc'), path.join(root, 'contracts/imports/params-copy.fc'));
+    assert.deepEqual((await findings(root)).filter(finding => finding.code === 'duplicate-include').map(finding => finding.data), [
+        { paths: ['contracts/imports/stdlib.fc', 'contracts/shared/stdlib.fc'] },
+        { paths: ['contracts/imports/params-copy.fc', 'contracts/imports/params.fc'] }
+    ]);
+});
+
+test('counts stdlib copies of the project only, leaving out nested projects and ignored files', async () => {
+    const root = createFixture({
+        'contracts/imports/stdlib.fc': '',
+        'contracts/stdlib.func': '',
+        'vendor/stdlib.fc': '',
+        'packages/other/package.json': '{}',
+        'packages/other/contracts/stdlib.fc': ''
+    });
+    const isIgnored = (absolutePath: string) => absolutePath.startsWith(path.join(root, 'vendor') + path.sep);
+    assert.deepEqual(await findings(root, isIgnored), [
+        { file: 'contracts/imports/stdlib.fc', code: 'multiple-stdlib', line: undefined, data: { files: ['contracts/imports/stdlib.fc', 'contracts/stdlib.func'] } }
+    ]);
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { buildSourceGraph, findImportCycles, findReachableFiles, isFuncFile, SOURCE_GRAPH_INPUTS } from '../utils/sourceGraph';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
+
+const STDLIB_FILE_REGEX = /^stdlib\.(fc|func)$/;
+
+/**
+ * Checks the `#include` directives of a project's FunC sources, following them from every compile target:
+ * includes must resolve to existing files, must not form cycles, and one compile target must not
+ * include the same file through different paths (such as a symlink or a hard link), which FunC compiles twice.
+ * Also reports projects that keep more than one copy of `stdlib.fc`, leaving out nested projects and ignored files.
+ * @param projectRoot Absolute path to the project root.
+ * @param isIgnored Files to leave out, such as those excluded by `.blueprintlinterignore`.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkFuncIncludes(
+    projectRoot: string,
+    isIgnored: (absolutePath: string) => boolean = () => false,
+    index?: ProjectIndex
+): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const graph = await buildSourceGraph(projectRoot, projectIndex);
+    const relative = (file: string) => path.relative(projectRoot, file).split(path.sep).join('/');
+    const funcFiles = [...graph.files.entries()].filter(([file]) => isFuncFile(file)).sort(([a], [b]) => a.localeCompare(b));
+
+    for (const [file, includes] of funcFiles) {
+        for (const entry of includes) {
+            if (entry.exists) continue;
+            errors.push({
+                type: ErrorType.ImportResolution,
+                file: relative(file),
+                line: entry.line,
+                message: `Include '${entry.specifier}' in '${relative(file)}' does not resolve. File '${relative(entry.resolved!)}' does not exist.`,
+                code: 'unresolved-include',
+                data: { specifier: entry.specifier, resolved: relative(entry.resolved!) }
+            });
+        }
+    }
+
+    for (const cycle of findImportCycles(graph).filter(cycle => isFuncFile(cycle[0]))) {
+        errors.push({
+            type: ErrorType.ImportResolution,
+            file: relative(cycle[0]),
+            line: (graph.files.get(cycle[0]) || []).find(entry => entry.resolved === cycle[1 % cycle.length])?.line,
+            message: `Include cycle detected: ${[...cycle, cycle[0]].map(relative).join(' -> ')}.`,
+            code: 'include-cycle',
+            data: { cycle: cycle.map(relative) }
+        });
+    }
+
+    for (const target of graph.entryPoints.filter(isFuncFile).sort()) {
+        // Reachable files by the file on disk they are, so symlinks and hard links meet
+        const pathsByFile = new Map<string, string[]>();
+        for (const file of findReachableFiles(graph, [target])) {
+            if (!fs.existsSync(file)) continue;
+            const { dev, ino } = fs.statSync(file);
+            const key = `${dev}:${ino}`;
+            pathsByFile.set(key, [...(pathsByFile.get(key) || []), file]);
+        }
+        for (const files of pathsByFile.values()) {
+            if (files.length < 2) continue;
+            const paths = files.map(relative).sort();
+            errors.push({
+                type: ErrorType.ImportResolution,
+                file: relative(target),
+                message: `Compile target '${relative(target)}' includes the same file through different paths: ${paths.map(file => `'${file}'`).join(', ')}.`,
+                code: 'duplicate-include',
+                data: { paths }
+            });
+        }
+    }
+
+    // Directories with their own package.json are projects of their own, with their own stdlib
+    const nestedProjects = projectIndex.files.filter(file => file.endsWith('/package.json')).map(file => path.posix.dirname(file) + '/');
+    const stdlibCopies = projectIndex.files
+        .filter(file => STDLIB_FILE_REGEX.test(path.posix.basename(file)))
+        .filter(file => !nestedProjects.some(dir => file.startsWith(dir)) && !isIgnored(path.join(projectRoot, file)));
+    if (stdlibCopies.length > 1) {
+        errors.push({
+            type: ErrorType.ImportResolution,
+            file: stdlibCopies[0],
+            message: `Found ${stdlibCopies.length} copies of the FunC standard library: ${stdlibCopies.map(file => `'${file}'`).join(', ')}. Keep one and include it everywhere.`,
+            code: 'multiple-stdlib',
+            data: { files: stdlibCopies },
+            severity: Severity.Warning
+        });
+    }
+
+    return errors;
+}
+
+export const funcIncludesRule: Rule = {
+    id: RuleId.FuncIncludes,
+    description: 'FunC #include directives resolve, do not form cycles or include a file twice, and the project has one stdlib.fc.',
+    docsUrl: ruleDocsUrl(RuleId.FuncIncludes),
+    defaultSeverity: Severity.Error,
+    inputs: SOURCE_GRAPH_INPUTS,
+    scope: 'project',
+    run: ({ projectRoot, isIgnored, index }) => checkFuncIncludes(projectRoot, isIgnored, index)
+};
@@ -0,0 +1,219 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { LinterError, ErrorType, Rule, RuleId, RuleMeta, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { contractNamingRule } from '../checks/namingConsistency';
+import { blueprintConfigRule } from './blueprintConfigRule';
+import { dependencyVersionsRule } from './dependencyVersionsRule';
+import { testFilesRule } from './testFilesRule';
+import { duplicateContractNamesRule } from './duplicateContractNames';
+import { wrapperNamingRule } from './wrapperNamingRule';
+import { scriptNamingRule } from './scriptNamingRule';
+import { scriptEntryPointRule } from './scriptEntryPointRule';
+import { contractFilesExistRule } from '../checks/contractFilesCheck';
+import { contractCorrespondenceRule } from './contractCorrespondenceRule';
+import { tactConfigRule } from './tactConfigRule';
+import { tactImportsRule } from './tactImportsRule';
+import { funcIncludesRule } from './funcIncludesRule';
+import { unreachableFilesRule } from './unreachableFilesRule';
+
+export type RuleRegistry = Map<string, Rule>;
+
+export interface PluginReference {
+    name: string; // Package name or path, as written in the config
+    basePath: string; // Directory of the config file that declared the plugin
+}
+
+/**
+ * Rules that are part of project discovery or reporting rather than per-project checks.
+ * They run inside `lint()` itself, but are configured like any other rule.
+ */
+export const DISCOVERY_RULES: RuleMeta[] = [
+    {
+        id: RuleId.RootFolder,
+        description: 'The parent of the scanned directory does not contain contract folders.',
+        docsUrl: ruleDocsUrl(RuleId.RootFolder),
+        defaultSeverity: Severity.Error,
+        optionsSchema: {
+            markerItems: { type: 'string[]', description: 'Items that mark the parent as a monorepo root worth checking.' },
+            forbiddenDirs: { type: 'string[]', description: 'Directories that must not exist in such a root.' }
+        }
+    },
+    {
+        id: RuleId.BrokenProject,
+        description: 'Directories with Blueprint folders also have a package.json.',
+        docsUrl: ruleDocsUrl(RuleId.BrokenProject),
+        defaultSeverity: Severity.Error
+    },
+    {
+        id: RuleId.ProjectStructure,
+        description: 'Projects depend on @ton-ai-core/blueprint, have it installed and have a blueprint.config.ts.',
+        docsUrl: ruleDocsUrl(RuleId.ProjectStructure),
+        defaultSeverity: Severity.Error
+    },
+    {
+        id: RuleId.UnusedSuppression,
+        description: 'blueprint-linter-disable comments suppress at least one finding.',
+        docsUrl: ruleDocsUrl(RuleId.UnusedSuppression),
+        defaultSeverity: Severity.Warning
+    }
+];
+
+export const BUILT_IN_RULES: Rule[] = [
+    blueprintConfigRule,
+    dependencyVersionsRule,
+    contractNamingRule,
+    duplicateContractNamesRule,
+    wrapperNamingRule,
+    scriptNamingRule,
+    scriptEntryPointRule,
+    testFilesRule,
+    contractFilesExistRule,
+    contractCorrespondenceRule,
+    tactConfigRule,
+    tactImportsRule,
+    funcIncludesRule,
+    unreachableFilesRule
+];
+
+/**
+ * Whether a file, given relative to the project root, matches the rule's `inputs`. Rules without `inputs` match every file.
+ */
+export function isRuleInput(rule: RuleMeta, relativeFile: string): boolean {
+    const file = relativeFile.split(path.sep).join('/');
+    return !rule.inputs || rule.inputs.some(pattern => minimatch(file, pattern, { dot: true }));
+}
+
+/**
+ * Whether a rule reads a file, given as an absolute path, beyond its `inputs`.
+ */
+export function isExtraRuleInput(rule: RuleMeta, projectRoot: string, file: string): boolean {
+    return !!rule.extraInputs && rule.extraInputs(projectRoot).includes(path.resolve(file));
+}
+
+/**
+ * Creates a registry holding the built-in per-project rules, in the order they run.
+ */
+export function createRuleRegistry(): RuleRegistry {
+    return new Map(BUILT_IN_RULES.map(rule => [rule.id, rule]));
+}
+
+/**
+ * Derives the rule namespace of a plugin from its package name, the way ESLint does:
+ * `blueprint-linter-plugin-foo` -> `foo`, `@acme/blueprint-linter-plugin` -> `@acme`,
+ * `@acme/blueprint-linter-plugin-foo` -> `@acme/foo`. Paths use their file name.
+ */
+export function getPluginNamespace(name: string): string {
+    if (name.startsWith('.') || path.isAbsolute(name)) {
+        return path.basename(name, path.extname(name)).replace(/^blueprint-linter-plugin-/, '');
+    }
+    const scoped = name.match(/^(@[^/]+)\/blueprint-linter-plugin(?:-(.+))?$/);
+    if (scoped) {
+        return scoped[2] ? `${scoped[1]}/${scoped[2]}` : scoped[1];
+    }
+    return name.replace(/^blueprint-linter-plugin-/, '');
+}
+
+function isRule(value: any): value is Rule {
+    return value && typeof value.id === 'string' && typeof value.run === 'function';
+}
+
+/**
+ * Loads plugins and registers their rules as `<namespace>/<rule id>`.
+ * A plugin module exports `rules`, either as an array of rules or as an object keyed by rule id.
+ * Plugins are resolved from the directory of the config file that names them.
+ * @returns Errors for plugins that cannot be loaded or export no valid rules.
+ */
+export function loadPlugins(registry: RuleRegistry, plugins: PluginReference[]): LinterError[] {
+    const errors: LinterError[] = [];
+    const loaded = new Set<string>();
+
+    for (const plugin of plugins) {
+        const report = (message: string, code: string) => errors.push({ type: ErrorType.InvalidConfig, file: plugin.basePath, message, code, data: { plugin: plugin.name } });
+        let modulePath: string;
+        try {
+            const request = plugin.name.startsWith('.') ? path.resolve(plugin.basePath, plugin.name) : plugin.name;
+            modulePath = require.resolve(request, { paths: [plugin.basePath] });
+        } catch (error: any) {
+            report(`Plugin '${plugin.name}' could not be found: ${error.message || error}`, 'plugin-not-found');
+            continue;
+        }
+        if (loaded.has(modulePath)) continue;
+        loaded.add(modulePath);
+
+        let exported: any;
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const pluginModule = require(modulePath);
+            exported = pluginModule && (pluginModule.rules || (pluginModule.default && pluginModule.default.rules));
+        } catch (error: any) {
+            report(`Plugin '${plugin.name}' failed to load: ${error.message || error}`, 'plugin-load-failed');
+            continue;
+        }
+
+        const rules: any[] = Array.isArray(exported)
+            ? exported
+            : Object.entries(exported || {}).map(([id, rule]: [string, any]) => ({ ...rule, id: rule && rule.id ? rule.id : id }));
+        if (rules.length === 0) {
+            report(`Plugin '${plugin.name}' does not export any rules. Export 'rules' as an array or an object of rules.`, 'invalid-plugin');
+            continue;
+        }
+
+        const namespace = getPluginNamespace(plugin.name);
+        for (const rule of rules) {
+            if (!isRule(rule)) {
+                report(`Plugin '${plugin.name}' exports an invalid rule; rules need an 'id' and a 'run(context)' method.`, 'invalid-plugin');
+                continue;
+            }
+            const id = `${namespace}/${rule.id}`;
+            registry.set(id, {
+                ...rule,
+                id,
+                description: rule.description || '',
+                docsUrl: rule.docsUrl || '',
+                defaultSeverity: rule.defaultSeverity || Severity.Error
+            });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Checks rule options against the rule's schema and drops the invalid and unknown ones,
+ * so the rule falls back to its defaults for them.
+ * @returns The valid options, and one message per option that was dropped.
+ */
+export function filterRuleOptions(rule: RuleMeta, options: Record<string, any>): { options: Record<string, any>; problems: string[] } {
+    const valid: Record<string, any> = {};
+    const problems: string[] = [];
+    const schema = rule.optionsSchema || {};
+    for (const [key, value] of Object.entries(options)) {
+        const option = schema[key];
+        if (!option) {
+            const known = Object.keys(schema);
+            problems.push(`Unknown option '${key}' for rule '${rule.id}'.${known.length > 0 ? ` Known options: ${known.join(', ')}.` : ' The rule takes no options.'}`);
+            continue;
+        }
+        const isArray = option.type === 'string[]';
+        const hasType = isArray
+            ? Array.isArray(value) && value.every(item => typeof item === 'string')
+            : typeof value === option.type;
+        if (!hasType) {
+            problems.push(`Option '${key}' for rule '${rule.id}' must be of type ${option.type}.`);
+        } else if (option.enum && !(isArray ? value : [value]).every((item: string) => option.enum!.includes(item))) {
+            problems.push(`Option '${key}' for rule '${rule.id}' must ${isArray ? 'only contain' : 'be one of'} ${option.enum.join(', ')}.`);
+        } else {
+            valid[key] = value;
+        }
+    }
+    return { options: valid, problems };
+}
+
+/**
+ * Checks rule options against the rule's schema.
+ * @returns One message per invalid or unknown option.
+ */
+export function validateRuleOptions(rule: RuleMeta, options: Record<string, any>): string[] {
+    return filterRuleOptions(rule, options).problems;
+}
@@ -0,0 +1,152 @@
+import * as path from 'path';
+import ts from 'typescript';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { getSourceRange, hasExportModifier } from '../utils/typescriptSource';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
+
+const RUN_SIGNATURE = 'export async function run(provider: NetworkProvider, args?: string[])';
+
+type RunFunction = ts.FunctionDeclaration | ts.ArrowFunction | ts.FunctionExpression;
+
+/**
+ * Finds the exported `run` function: `export async function run`, `export const run = async () => {}`
+ * or `export { run }` of a local function.
+ * @returns The function, `true` if `run` is exported but is not a function we can inspect, or undefined.
+ */
+function findRunExport(sourceFile: ts.SourceFile): RunFunction | true | undefined {
+    const locals = new Map<string, RunFunction | true>();
+    let exported: RunFunction | true | undefined;
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name) {
+            locals.set(statement.name.text, statement);
+            if (hasExportModifier(statement) && statement.name.text === 'run') exported = statement;
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(declaration.name)) continue;
+                const initializer = declaration.initializer;
+                const fn = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) ? initializer : true;
+                locals.set(declaration.name.text, fn);
+                if (hasExportModifier(statement) && declaration.name.text === 'run') exported = fn;
+            }
+        }
+    }
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            for (const element of statement.exportClause.elements) {
+                if (element.name.text !== 'run') continue;
+                // `export { run } from './x'` re-exports a function we can't see
+                exported = statement.moduleSpecifier ? true : locals.get((element.propertyName || element.name).text) || true;
+            }
+        }
+    }
+    return exported;
+}
+
+function typeName(type: ts.TypeNode | undefined): string | undefined {
+    if (!type) return undefined;
+    if (ts.isTypeReferenceNode(type)) {
+        const name = ts.isIdentifier(type.typeName) ? type.typeName.text : type.typeName.right.text;
+        const args = type.typeArguments ? `<${type.typeArguments.map(arg => typeName(arg)).join(', ')}>` : '';
+        return name + args;
+    }
+    if (ts.isArrayTypeNode(type)) return `${typeName(type.elementType)}[]`;
+    if (type.kind === ts.SyntaxKind.StringKeyword) return 'string';
+    return type.getText();
+}
+
+/**
+ * Describes what is wrong with a `run` signature, or returns undefined when it matches
+ * `run(provider: NetworkProvider, args?: string[])`.
+ */
+function checkRunSignature(run: RunFunction): string | undefined {
+    const params = run.parameters;
+    if (params.length === 0 || params.length > 2) {
+        return `takes ${params.length} parameter(s), but Blueprint calls it with (provider, args)`;
+    }
+    const providerType = typeName(params[0].type);
+    if (providerType !== 'NetworkProvider') {
+        return providerType
+            ? `has its first parameter typed as '${providerType}' instead of 'NetworkProvider'`
+            : `has an untyped first parameter; it should be 'provider: NetworkProvider'`;
+    }
+    if (params.length === 2) {
+        const argsType = typeName(params[1].type);
+        if (argsType !== undefined && argsType !== 'string[]' && argsType !== 'Array<string>') {
+            return `has its second parameter typed as '${argsType}' instead of 'string[]'`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks that every script in `scripts/` can be started with `blueprint run`:
+ * it exports a `run(provider: NetworkProvider, args?: string[])` function.
+ * Scripts without `run` that other scripts import are helper modules and are reported as such.
+ * @param projectRoot Absolute path to the project root.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkScriptEntryPoints(projectRoot: string, index?: ProjectIndex): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const files = projectIndex.glob('scripts/**/*.ts', ['**/*.d.ts']);
+    const sources = new Map<string, ts.SourceFile>();
+    for (const file of files) {
+        const fullPath = path.join(projectRoot, file);
+        sources.set(file, await projectIndex.parseTypeScript(fullPath));
+    }
+
+    // Scripts imported by other scripts, by path relative to the project root
+    const imported = new Set<string>();
+    for (const [file, sourceFile] of sources) {
+        for (const statement of sourceFile.statements) {
+            const specifier = (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) && statement.moduleSpecifier;
+            if (!specifier || !ts.isStringLiteral(specifier) || !specifier.text.startsWith('.')) continue;
+            const target = path.join(path.dirname(file), specifier.text);
+            imported.add(target.endsWith('.ts') ? target : `${target}.ts`);
+            imported.add(path.join(target, 'index.ts'));
+        }
+    }
+
+    for (const [file, sourceFile] of sources) {
+        const run = findRunExport(sourceFile);
+        if (run === undefined) {
+            errors.push({
+                type: ErrorType.ScriptEntryPoint,
+                file,
+                message: imported.has(file)
+                    ? `Script '${file}' has no 'run' export and is imported by other scripts. Move helper modules out of 'scripts/' (e.g. to 'utils/').`
+                    : `Script '${file}' does not export a 'run' function, so 'blueprint run' cannot start it. Expected '${RUN_SIGNATURE}'.`,
+                code: imported.has(file) ? 'helper-module' : 'missing-run'
+            });
+            continue;
+        }
+        if (run === true) continue;
+
+        const problem = checkRunSignature(run);
+        if (problem) {
+            errors.push({
+                type: ErrorType.ScriptEntryPoint,
+                file,
+                // From the start of the function to the end of its parameter list
+                ...getSourceRange(run, run.getChildren().find(child => child.kind === ts.SyntaxKind.CloseParenToken) || run.parameters[run.parameters.length - 1] || run),
+                message: `The 'run' function in '${file}' ${problem}. Expected '${RUN_SIGNATURE}'.`,
+                code: 'invalid-signature'
+            });
+        }
+    }
+
+    return errors;
+}
+
+export const scriptEntryPointRule: Rule = {
+    id: RuleId.ScriptEntryPoint,
+    description: 'Scripts export run(provider: NetworkProvider, args?) for blueprint run, and helper modules live outside scripts/.',
+    docsUrl: ruleDocsUrl(RuleId.ScriptEntryPoint),
+    defaultSeverity: Severity.Error,
+    inputs: ['scripts/**'],
+    scope: 'project',
+    run: ({ projectRoot, index }) => checkScriptEntryPoints(projectRoot, index)
+};
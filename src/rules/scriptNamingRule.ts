@@ -1,6 +1,8 @@
-import * as glob from 'glob';
 import * as path from 'path';
-import { LinterError, ErrorType } from '../types';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { toLowerCamelCase } from '../utils/normalizeName';
+import { ruleDocsUrl, toRegExp } from '../utils/ruleOptions';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
 
 // Regex to check for lowerCamelCase (starts with lowercase, followed by letters/digits, no underscores)
 const LOWER_CAMEL_CASE_REGEX = /^[a-z][a-zA-Z0-9]*$/;
@@ -8,47 +10,58 @@ const LOWER_CAMEL_CASE_REGEX = /^[a-z][a-zA-Z0-9]*$/;
 /**
  * Checks file naming conventions within the scripts directory.
  * - Files must be lowerCamelCase.
- * - TODO: Optionally check if filename matches an exported function (e.g., `run`).
+ * The `run` export scripts need is checked by the script-entry-point rule.
  * @param projectRoot Absolute path to the project root.
+ * @param lowerCamelCaseRegex Pattern the script base name must match.
+ * @param index The project's file index; built when omitted.
  * @returns A Promise resolving to an array of LinterError objects found.
  */
-export async function checkScriptNaming(projectRoot: string): Promise<LinterError[]> {
+export async function checkScriptNaming(projectRoot: string, lowerCamelCaseRegex: RegExp = LOWER_CAMEL_CASE_REGEX, index?: ProjectIndex): Promise<LinterError[]> {
     const errors: LinterError[] = [];
     const scriptDir = path.join(projectRoot, 'scripts');
-    const pattern = path.join(scriptDir, '**', '*.ts');
-    const absolutePattern = path.resolve(scriptDir, '**', '*.ts');
 
     try {
-        const files = await glob.glob(absolutePattern, { nodir: true, ignore: ['**/node_modules/**', '**/*.d.ts'], withFileTypes: true });
+        const projectIndex = index || await createProjectIndex(projectRoot);
+        const files = projectIndex.glob('scripts/**/*.ts', ['**/*.d.ts']);
 
-        for (const file of files) {
-            if (!file.isFile()) continue;
-
-            const fullPath = file.fullpath();
-            const relativePath = path.relative(projectRoot, fullPath);
+        for (const relativePath of files) {
+            const fullPath = path.join(projectRoot, relativePath);
             const baseName = path.parse(fullPath).name;
 
             // 1. Check if filename is lowerCamelCase
-            if (!LOWER_CAMEL_CASE_REGEX.test(baseName)) {
+            if (!lowerCamelCaseRegex.test(baseName)) {
+                const expectedBaseName = toLowerCamelCase(baseName);
                 errors.push({
                     type: ErrorType.NamingConsistency,
                     file: relativePath,
-                    message: `Script file name '${path.basename(fullPath)}' should be in lowerCamelCase.`
+                    message: `Script file name '${path.basename(fullPath)}' should be in lowerCamelCase.`,
+                    code: 'not-lower-camel-case',
+                    data: { baseName, expected: expectedBaseName },
+                    // Only offer a rename when the converted name actually satisfies the pattern
+                    fix: lowerCamelCaseRegex.test(expectedBaseName) ? { kind: 'rename', newName: `${expectedBaseName}.ts` } : undefined
                 });
             }
-
-            // TODO: Add check for matching exported function name if required
-            // This would involve reading the file and using regex or AST
-            // e.g., find `export async function functionName(...)` and compare functionName with baseName
-
         }
     } catch (globError: any) {
          errors.push({
             type: ErrorType.StructureValidation, 
             file: path.join(path.relative(projectRoot, scriptDir) || 'scripts', ''),
-            message: `Error scanning scripts directory: ${globError.message}`
+            message: `Error scanning scripts directory: ${globError.message}`,
+            code: 'scan-error'
         });
     }
 
     return errors;
-} 
\ No newline at end of file
+} 
+
+export const scriptNamingRule: Rule = {
+    id: RuleId.ScriptNaming,
+    description: 'Script files use lowerCamelCase file names.',
+    docsUrl: ruleDocsUrl(RuleId.ScriptNaming),
+    defaultSeverity: Severity.Error,
+    inputs: ['scripts/**'],
+    optionsSchema: {
+        pattern: { type: 'string', description: 'Regular expression the script base name must match.' }
+    },
+    run: ({ projectRoot, options, index }) => checkScriptNaming(projectRoot, toRegExp(options.pattern), index)
+};
@@ -0,0 +1,185 @@
+import * as path from 'path';
+import ts from 'typescript';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { getJsonProperties, getSourceRange, parseJsonObject } from '../utils/typescriptSource';
+import { buildSourceGraph, findReachableFiles } from '../utils/sourceGraph';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
+import { TACT_CONTRACT_REGEX } from './contractCorrespondenceRule';
+
+const TACT_CONFIG_FILE = 'tact.config.json';
+const MODES = ['fullWithDecompilation', 'full', 'funcOnly', 'checkOnly'];
+const REQUIRED_PROJECT_KEYS = ['name', 'path', 'output'];
+
+// Keys the Tact config schema allows; nested objects list their own keys
+interface KeySchema {
+    [key: string]: KeySchema | true;
+}
+
+const PROJECT_OPTIONS_SCHEMA: KeySchema = {
+    debug: true,
+    masterchain: true,
+    external: true,
+    ipfsAbiGetter: true,
+    interfacesGetter: true,
+    experimental: { inline: true },
+    safety: { nullChecks: true },
+    optimizations: { alwaysSaveContractData: true, internalExternalReceiversOutsideMethodsMap: true },
+    enableLazyDeploymentCompletedGetter: true
+};
+
+const PROJECT_SCHEMA: KeySchema = { name: true, path: true, output: true, options: PROJECT_OPTIONS_SCHEMA, mode: true };
+const CONFIG_SCHEMA: KeySchema = { $schema: true, projects: true };
+
+/**
+ * Reports keys of `object`, and of the objects nested in it, that the schema does not know.
+ * @param where JSON path of `object`, for messages.
+ */
+function checkKeys(object: ts.ObjectLiteralExpression, schema: KeySchema, where: string, errors: LinterError[]): void {
+    for (const { key, property } of getJsonProperties(object)) {
+        const keySchema = schema[key];
+        const keyPath = where ? `${where}.${key}` : key;
+        if (!keySchema) {
+            errors.push({
+                type: ErrorType.TactConfig,
+                file: TACT_CONFIG_FILE,
+                ...getSourceRange(property.name),
+                message: `Unknown key '${keyPath}' in ${TACT_CONFIG_FILE}. Known keys${where ? ` of '${where}'` : ''}: ${Object.keys(schema).join(', ')}.`,
+                code: 'unknown-key',
+                data: { key: keyPath }
+            });
+        } else if (keySchema !== true && ts.isObjectLiteralExpression(property.initializer)) {
+            checkKeys(property.initializer, keySchema, keyPath, errors);
+        }
+    }
+}
+
+function stringValue(object: ts.ObjectLiteralExpression, key: string): { value: string; property: ts.PropertyAssignment } | undefined {
+    const entry = getJsonProperties(object).find(candidate => candidate.key === key);
+    return entry && ts.isStringLiteral(entry.property.initializer) ? { value: entry.property.initializer.text, property: entry.property } : undefined;
+}
+
+/**
+ * Validates a project's `tact.config.json` against the Tact config schema: unknown keys,
+ * missing or mistyped project fields, invalid `mode` values, duplicate project names and
+ * `output` directories, and `output` directories outside the project. Also reports `.tact`
+ * files under `contracts/` that declare a contract no project compiles, directly or through imports.
+ * Findings point at the offending key. Unreadable files are left to `contract-files-exist`.
+ * @param projectRoot Absolute path to the project root.
+ * @param isIgnored Files to leave out, such as those excluded by `.blueprintlinterignore`.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkTactConfig(
+    projectRoot: string,
+    isIgnored: (absolutePath: string) => boolean = () => false,
+    index?: ProjectIndex
+): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const configPath = path.join(projectRoot, TACT_CONFIG_FILE);
+    let content: string;
+    try {
+        content = await projectIndex.readFile(configPath);
+        JSON.parse(content);
+    } catch {
+        return errors;
+    }
+    const config = parseJsonObject(configPath, content);
+    if (!config) return errors;
+
+    const report = (node: ts.Node, message: string, code: string, data?: Record<string, unknown>) => {
+        errors.push({ type: ErrorType.TactConfig, file: TACT_CONFIG_FILE, ...getSourceRange(node), message, code, data });
+    };
+
+    checkKeys(config, CONFIG_SCHEMA, '', errors);
+    const projectsEntry = getJsonProperties(config).find(entry => entry.key === 'projects');
+    if (!projectsEntry || !ts.isArrayLiteralExpression(projectsEntry.property.initializer)) {
+        report(projectsEntry ? projectsEntry.property : config, `'projects' in ${TACT_CONFIG_FILE} must be an array of projects.`, 'invalid-projects');
+        return errors;
+    }
+
+    const names = new Map<string, number>();
+    const outputs = new Map<string, number>();
+    const projectPaths: string[] = [];
+    projectsEntry.property.initializer.elements.forEach((element, index) => {
+        const where = `projects[${index}]`;
+        if (!ts.isObjectLiteralExpression(element)) {
+            report(element, `'${where}' in ${TACT_CONFIG_FILE} must be an object.`, 'invalid-project');
+            return;
+        }
+        checkKeys(element, PROJECT_SCHEMA, where, errors);
+
+        for (const key of REQUIRED_PROJECT_KEYS) {
+            const entry = getJsonProperties(element).find(candidate => candidate.key === key);
+            if (!entry) {
+                report(element, `'${where}' in ${TACT_CONFIG_FILE} is missing the required key '${key}'.`, 'missing-key', { key: `${where}.${key}` });
+            } else if (!ts.isStringLiteral(entry.property.initializer)) {
+                report(entry.property, `'${where}.${key}' in ${TACT_CONFIG_FILE} must be a string.`, 'invalid-value', { key: `${where}.${key}` });
+            }
+        }
+
+        const mode = getJsonProperties(element).find(entry => entry.key === 'mode');
+        if (mode && !(ts.isStringLiteral(mode.property.initializer) && MODES.includes(mode.property.initializer.text))) {
+            report(mode.property, `Invalid mode ${mode.property.initializer.getText()} in '${where}'. Use one of: ${MODES.join(', ')}.`, 'invalid-mode', { mode: mode.property.initializer.getText() });
+        }
+
+        const name = stringValue(element, 'name');
+        if (name) {
+            const first = names.get(name.value);
+            if (first !== undefined) {
+                report(name.property, `Project name '${name.value}' in '${where}' is already used by 'projects[${first}]'.`, 'duplicate-name', { name: name.value });
+            } else {
+                names.set(name.value, index);
+            }
+        }
+
+        const output = stringValue(element, 'output');
+        if (output) {
+            const resolved = path.resolve(projectRoot, output.value);
+            const relative = path.relative(projectRoot, resolved);
+            const first = outputs.get(resolved);
+            if (relative.startsWith('..') || path.isAbsolute(relative)) {
+                report(output.property, `Output directory '${output.value}' in '${where}' is outside the project.`, 'output-outside-project', { output: output.value });
+            }
+            if (first !== undefined) {
+                report(output.property, `Output directory '${output.value}' in '${where}' is already used by 'projects[${first}]'; their build artifacts would overwrite each other.`, 'duplicate-output', { output: output.value });
+            } else {
+                outputs.set(resolved, index);
+            }
+        }
+
+        const projectPath = stringValue(element, 'path');
+        if (projectPath) projectPaths.push(path.resolve(projectRoot, projectPath.value));
+    });
+
+    // Tact compiles every contract reachable from a project's entry file
+    const reachable = findReachableFiles(await buildSourceGraph(projectRoot, projectIndex), projectPaths);
+    const tactFiles = projectIndex.glob('contracts/**/*.tact');
+    for (const file of tactFiles) {
+        const fullPath = path.join(projectRoot, file);
+        if (reachable.has(fullPath) || isIgnored(fullPath)) continue;
+        if (!TACT_CONTRACT_REGEX.test(await projectIndex.readFile(fullPath))) continue;
+        const relativePath = file.split(path.sep).join('/');
+        errors.push({
+            type: ErrorType.TactConfig,
+            file,
+            message: `Contract '${relativePath}' is not compiled by any project in ${TACT_CONFIG_FILE}. Add a project with "path": "${relativePath}" or import it from one.`,
+            code: 'unlisted-contract',
+            // Projects may also compile Tact contracts through *.compile.ts files
+            severity: Severity.Warning
+        });
+    }
+
+    return errors;
+}
+
+export const tactConfigRule: Rule = {
+    id: RuleId.TactConfig,
+    description: 'tact.config.json follows the Tact config schema, and every Tact contract belongs to one of its projects.',
+    docsUrl: ruleDocsUrl(RuleId.TactConfig),
+    defaultSeverity: Severity.Error,
+    inputs: ['tact.config.json', 'contracts/**'],
+    scope: 'project',
+    run: ({ projectRoot, isIgnored, index }) => checkTactConfig(projectRoot, isIgnored, index)
+};
@@ -0,0 +1,58 @@
+import path from 'path';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { buildSourceGraph, findImportCycles, SOURCE_GRAPH_INPUTS } from '../utils/sourceGraph';
+import { ProjectIndex } from '../utils/projectIndex';
+
+/**
+ * Checks the `import` statements of a project's Tact sources: every import must resolve
+ * to an existing file, and files must not import each other in a cycle.
+ * @param projectRoot Absolute path to the project root.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkTactImports(projectRoot: string, index?: ProjectIndex): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const graph = await buildSourceGraph(projectRoot, index);
+    const relative = (file: string) => path.relative(projectRoot, file).split(path.sep).join('/');
+
+    const tactFiles = [...graph.files.entries()].filter(([file]) => file.endsWith('.tact'));
+    for (const [file, imports] of tactFiles.sort(([a], [b]) => a.localeCompare(b))) {
+        for (const entry of imports) {
+            if (entry.exists) continue;
+            errors.push({
+                type: ErrorType.ImportResolution,
+                file: relative(file),
+                line: entry.line,
+                message: `Import '${entry.specifier}' in '${relative(file)}' does not resolve. File '${relative(entry.resolved!)}' does not exist.`,
+                code: 'unresolved-import',
+                data: { specifier: entry.specifier, resolved: relative(entry.resolved!) }
+            });
+        }
+    }
+
+    // FunC files cannot import Tact ones, so a cycle through a .tact file consists of .tact files only
+    for (const cycle of findImportCycles(graph).filter(cycle => cycle[0].endsWith('.tact'))) {
+        errors.push({
+            type: ErrorType.ImportResolution,
+            file: relative(cycle[0]),
+            line: (graph.files.get(cycle[0]) || []).find(entry => entry.resolved === cycle[1 % cycle.length])?.line,
+            message: `Import cycle detected: ${[...cycle, cycle[0]].map(relative).join(' -> ')}.`,
+            code: 'import-cycle',
+            data: { cycle: cycle.map(relative) },
+            severity: Severity.Warning
+        });
+    }
+
+    return errors;
+}
+
+export const tactImportsRule: Rule = {
+    id: RuleId.TactImports,
+    description: 'Tact imports resolve to existing files and do not form cycles.',
+    docsUrl: ruleDocsUrl(RuleId.TactImports),
+    defaultSeverity: Severity.Error,
+    inputs: SOURCE_GRAPH_INPUTS,
+    scope: 'project',
+    run: ({ projectRoot, index }) => checkTactImports(projectRoot, index)
+};
@@ -0,0 +1,155 @@
+import * as path from 'path';
+import ts from 'typescript';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { toPascalCase } from '../utils/normalizeName';
+import { ruleDocsUrl, toRegExp } from '../utils/ruleOptions';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
+
+// Regex to check for PascalCase (starts with uppercase, followed by letters/digits)
+const PASCAL_CASE_REGEX = /^[A-Z][a-zA-Z0-9]*$/;
+const TEST_SUFFIXES = ['.spec.ts', '.test.ts'];
+const WRAPPER_EXTENSIONS = ['', '.ts', '/index.ts'];
+
+// Import specifiers of a module: `import ... from`, `export ... from`, `require()` and `import()`
+function getModuleSpecifiers(sourceFile: ts.SourceFile): string[] {
+    const specifiers: string[] = [];
+    const visit = (node: ts.Node) => {
+        if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+            specifiers.push(node.moduleSpecifier.text);
+        } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])
+            && (node.expression.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+            specifiers.push(node.arguments[0].text);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return specifiers;
+}
+
+// Whether the test sets up a sandbox: `Blockchain.create()` or `blockchain.treasury()`
+function usesSandbox(sourceFile: ts.SourceFile): boolean {
+    let found = false;
+    const visit = (node: ts.Node) => {
+        if (found) return;
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+            const { name, expression } = node.expression;
+            if (name.text === 'treasury' || (name.text === 'create' && ts.isIdentifier(expression) && expression.text === 'Blockchain')) {
+                found = true;
+                return;
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return found;
+}
+
+/**
+ * Checks the test files in the tests directory.
+ * - Files must be PascalCase with the project's test suffix, `.spec.ts` by default.
+ * - A test named after a wrapper (`tests/FooBar.spec.ts` for `wrappers/FooBar.ts`) must import it.
+ * - A test that never calls `Blockchain.create()` or `blockchain.treasury()` is reported as a
+ *   warning; it usually is a placeholder copied from a template.
+ * Other `.ts` files in tests/ are helpers and are left alone.
+ * @param projectRoot Absolute path to the project root.
+ * @param pascalCaseRegex Pattern the test base name must match.
+ * @param suffix Test suffix every test file must use.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkTestFiles(
+    projectRoot: string,
+    pascalCaseRegex: RegExp = PASCAL_CASE_REGEX,
+    suffix: string = '.spec.ts',
+    index?: ProjectIndex
+): Promise<LinterError[]> {
+    const errors: LinterError[] = [];
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const files = projectIndex.glob(`tests/**/*{${TEST_SUFFIXES.join(',')}}`);
+    const suffixes = new Set(files.map(file => TEST_SUFFIXES.find(candidate => file.endsWith(candidate))));
+
+    for (const file of files) {
+        const fullPath = path.join(projectRoot, file);
+        const fileName = path.basename(file);
+        const fileSuffix = TEST_SUFFIXES.find(candidate => fileName.endsWith(candidate))!;
+        const baseName = fileName.slice(0, -fileSuffix.length);
+
+        // 1. Check the name: PascalCase base and the project's suffix
+        if (!pascalCaseRegex.test(baseName)) {
+            const expectedBaseName = toPascalCase(baseName);
+            errors.push({
+                type: ErrorType.TestFile,
+                file,
+                message: `Test file name part '${baseName}' in '${fileName}' should be in PascalCase.`,
+                code: 'not-pascal-case',
+                data: { baseName, expected: expectedBaseName },
+                fix: pascalCaseRegex.test(expectedBaseName) ? { kind: 'rename', newName: expectedBaseName + suffix } : undefined
+            });
+        } else if (fileSuffix !== suffix) {
+            errors.push({
+                type: ErrorType.TestFile,
+                file,
+                message: suffixes.size > 1
+                    ? `Test file '${fileName}' uses '${fileSuffix}' while other tests use '${suffix}'. Use '${suffix}' for all tests.`
+                    : `Test file '${fileName}' should end in '${suffix}'.`,
+                code: 'wrong-suffix',
+                data: { suffix: fileSuffix, expected: suffix },
+                fix: { kind: 'rename', newName: baseName + suffix }
+            });
+        }
+
+        let sourceFile: ts.SourceFile;
+        try {
+            sourceFile = await projectIndex.parseTypeScript(fullPath);
+        } catch (readError: any) {
+            errors.push({ type: ErrorType.TestFile, file, message: `Failed to read test file '${fileName}': ${readError.message}`, code: 'read-error' });
+            continue;
+        }
+
+        // 2. A test named after a wrapper imports it; tests without a wrapper are left to contract-correspondence
+        const wrapperPath = path.join(projectRoot, 'wrappers', baseName);
+        if (projectIndex.files.includes(`wrappers/${baseName}.ts`)) {
+            const importsWrapper = getModuleSpecifiers(sourceFile)
+                .filter(specifier => specifier.startsWith('.'))
+                .map(specifier => path.resolve(path.dirname(fullPath), specifier))
+                .some(resolved => WRAPPER_EXTENSIONS.some(extension => resolved === wrapperPath + extension));
+            if (!importsWrapper) {
+                errors.push({
+                    type: ErrorType.TestFile,
+                    file,
+                    message: `Test '${fileName}' does not import its wrapper 'wrappers/${baseName}.ts'.`,
+                    code: 'missing-wrapper-import',
+                    data: { wrapper: `wrappers/${baseName}.ts` }
+                });
+            }
+        }
+
+        // 3. A test exercises the contract in a sandbox
+        if (!usesSandbox(sourceFile)) {
+            errors.push({
+                type: ErrorType.TestFile,
+                file,
+                message: `Test '${fileName}' never calls 'Blockchain.create()' or 'blockchain.treasury()'. It looks like a placeholder that tests nothing.`,
+                code: 'no-sandbox',
+                severity: Severity.Warning
+            });
+        }
+    }
+
+    return errors;
+}
+
+export const testFilesRule: Rule = {
+    id: RuleId.TestFiles,
+    description: 'Test files are named PascalCase.spec.ts, import the wrapper they are named after and set up a sandbox.',
+    docsUrl: ruleDocsUrl(RuleId.TestFiles),
+    defaultSeverity: Severity.Error,
+    inputs: ['tests/**', 'wrappers/**'],
+    // Specs are checked against their wrappers and against the suffix of the other tests
+    scope: 'project',
+    optionsSchema: {
+        pattern: { type: 'string', description: 'Regular expression the test base name must match.' },
+        suffix: { type: 'string', enum: TEST_SUFFIXES, description: 'Suffix every test file must use.' }
+    },
+    run: ({ projectRoot, options, index }) => checkTestFiles(projectRoot, toRegExp(options.pattern), typeof options.suffix === 'string' ? options.suffix : undefined, index)
+};
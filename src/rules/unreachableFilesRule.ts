@@ -0,0 +1,44 @@
+import path from 'path';
+import { LinterError, ErrorType, Rule, RuleId, Severity } from '../types';
+import { ruleDocsUrl } from '../utils/ruleOptions';
+import { buildSourceGraph, findReachableFiles, SOURCE_GRAPH_INPUTS } from '../utils/sourceGraph';
+import { ProjectIndex } from '../utils/projectIndex';
+
+/**
+ * Reports Tact and FunC files under `contracts/` that no compile target or `tact.config.json` project
+ * reaches through imports and includes. Projects without any entry point are skipped, since every
+ * file would be reported.
+ * @param projectRoot Absolute path to the project root.
+ * @param index The project's file index; built when omitted.
+ * @returns A Promise resolving to an array of LinterError objects found.
+ */
+export async function checkUnreachableFiles(projectRoot: string, index?: ProjectIndex): Promise<LinterError[]> {
+    const graph = await buildSourceGraph(projectRoot, index);
+    if (graph.entryPoints.length === 0) return [];
+
+    const reachable = findReachableFiles(graph);
+    const contractsDir = path.join(projectRoot, 'contracts') + path.sep;
+
+    return [...graph.files.keys()]
+        .filter(file => file.startsWith(contractsDir) && !reachable.has(file))
+        .sort()
+        .map(file => {
+            const relativePath = path.relative(projectRoot, file).split(path.sep).join('/');
+            return {
+                type: ErrorType.UnreachableFile,
+                file: relativePath,
+                message: `File '${relativePath}' is not reachable from any compile target or tact.config.json project. Import it or remove it.`,
+                code: 'unreachable'
+            };
+        });
+}
+
+export const unreachableFilesRule: Rule = {
+    id: RuleId.UnreachableFiles,
+    description: 'Every file under contracts/ is reachable from a compile target or tact.config.json project.',
+    docsUrl: ruleDocsUrl(RuleId.UnreachableFiles),
+    defaultSeverity: Severity.Warning,
+    inputs: SOURCE_GRAPH_INPUTS,
+    scope: 'project',
+    run: ({ projectRoot, index }) => checkUnreachableFiles(projectRoot, index)
+};
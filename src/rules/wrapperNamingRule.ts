@@ -1,37 +1,42 @@
-import * as glob from 'glob';
 import * as path from 'path';
-import * as fs from 'fs/promises';
-import { LinterError, ErrorType } from '../types';
+import { LinterError, ErrorType, Severity, Rule, RuleId } from '../types';
+import { toPascalCase } from '../utils/normalizeName';
+import { ruleDocsUrl, toRegExp, toSeverityOption } from '../utils/ruleOptions';
+import { getExportedClasses, getSourceRange, hasExportAll } from '../utils/typescriptSource';
+import { createProjectIndex, ProjectIndex } from '../utils/projectIndex';
 
 // Regex to check for PascalCase (starts with uppercase, followed by letters/digits)
 const PASCAL_CASE_REGEX = /^[A-Z][a-zA-Z0-9]*$/;
-// Regex to find exported class name (simple version, might need refinement)
-const EXPORTED_CLASS_REGEX = /export\s+(?:abstract\s+)?class\s+([A-Za-z0-9_]+)/;
 const COMPILE_TS_SUFFIX = '.compile.ts';
 const TS_SUFFIX = '.ts';
 
 /**
  * Checks file naming conventions within the wrappers directory.
  * - Files must be PascalCase or PascalCase.compile.ts.
- * - PascalCase part must match the exported class name.
+ * - PascalCase part must match the exported class name; with several exported classes, one of them.
+ * - Wrappers without an exported class are reported with `missingClassSeverity`.
  * @param projectRoot Absolute path to the project root.
+ * @param pascalCaseRegex Pattern the wrapper base name must match.
+ * @param missingClassSeverity Severity for wrappers that export no class, or 'off' to skip them.
+ * @param index The project's file index; built when omitted.
  * @returns A Promise resolving to an array of LinterError objects found.
  */
-export async function checkWrapperNaming(projectRoot: string): Promise<LinterError[]> {
+export async function checkWrapperNaming(
+    projectRoot: string,
+    pascalCaseRegex: RegExp = PASCAL_CASE_REGEX,
+    missingClassSeverity: Severity | 'off' = Severity.Warning,
+    index?: ProjectIndex
+): Promise<LinterError[]> {
     const errors: LinterError[] = [];
     const wrapperDir = path.join(projectRoot, 'wrappers');
-    // Find all .ts files initially
-    const pattern = path.join(wrapperDir, '**', '*.ts');
-    const absolutePattern = path.resolve(wrapperDir, '**', '*.ts');
 
     try {
-        const files = await glob.glob(absolutePattern, { nodir: true, ignore: ['**/node_modules/**', '**/*.d.ts'], withFileTypes: true });
+        const projectIndex = index || await createProjectIndex(projectRoot);
+        // Find all .ts files initially
+        const files = projectIndex.glob('wrappers/**/*.ts', ['**/*.d.ts']);
 
-        for (const file of files) {
-            if (!file.isFile()) continue;
-
-            const fullPath = file.fullpath();
-            const relativePath = path.relative(projectRoot, fullPath);
+        for (const relativePath of files) {
+            const fullPath = path.join(projectRoot, relativePath);
             const fileName = path.basename(fullPath);
             let baseName = ''; // The part expected to be PascalCase
             let isCompileFile = false;
@@ -47,12 +52,17 @@ export async function checkWrapperNaming(projectRoot: string): Promise<LinterErr
             }
 
             // 1. Check if the base name part is PascalCase
-            if (!PASCAL_CASE_REGEX.test(baseName)) {
-                const expectedFormat = isCompileFile ? `${baseName} (should be PascalCase).compile.ts` : `${baseName} (should be PascalCase).ts`;
+            if (!pascalCaseRegex.test(baseName)) {
+                const expectedBaseName = toPascalCase(baseName);
                 errors.push({
                     type: ErrorType.NamingConsistency,
                     file: relativePath,
-                    message: `Wrapper file name part '${baseName}' in '${fileName}' should be in PascalCase.`
+                    message: `Wrapper file name part '${baseName}' in '${fileName}' should be in PascalCase.`,
+                    code: 'not-pascal-case',
+                    data: { baseName, expected: expectedBaseName },
+                    fix: pascalCaseRegex.test(expectedBaseName)
+                        ? { kind: 'rename', newName: expectedBaseName + (isCompileFile ? COMPILE_TS_SUFFIX : TS_SUFFIX) }
+                        : undefined
                 });
                  // Don't check class name if the base format is wrong
                 continue; 
@@ -62,26 +72,42 @@ export async function checkWrapperNaming(projectRoot: string): Promise<LinterErr
             // We skip this check for .compile.ts files as they don't typically export a class matching the name
             if (!isCompileFile) {
                 try {
-                    const content = await fs.readFile(fullPath, 'utf-8');
-                    const match = content.match(EXPORTED_CLASS_REGEX);
+                    const sourceFile = await projectIndex.parseTypeScript(fullPath);
+                    const classes = getExportedClasses(sourceFile);
+                    const classNames = classes.map(exportedClass => exportedClass.name);
 
-                    if (!match || !match[1]) {
-                        // Optional: Warn if no exported class found
-                    } else {
-                        const exportedClassName = match[1];
-                        if (baseName !== exportedClassName) {
+                    if (classNames.length === 0) {
+                        // Tact wrappers usually just re-export the generated bindings, so they have no class of their own
+                        if (missingClassSeverity !== 'off' && !hasExportAll(sourceFile)) {
                             errors.push({
                                 type: ErrorType.NamingConsistency,
                                 file: relativePath,
-                                message: `Wrapper filename '${fileName}' (base '${baseName}') does not match the exported class name '${exportedClassName}'.`
+                                message: `Wrapper file '${fileName}' does not export a class. Expected an exported class named '${baseName}'.`,
+                                code: 'missing-class',
+                                data: { expected: baseName },
+                                severity: missingClassSeverity
                             });
                         }
+                    } else if (!classNames.includes(baseName)) {
+                        const exportedClassName = classNames[0];
+                        errors.push({
+                            type: ErrorType.NamingConsistency,
+                            file: relativePath,
+                            ...getSourceRange(classes[0].node),
+                            message: classNames.length === 1
+                                ? `Wrapper filename '${fileName}' (base '${baseName}') does not match the exported class name '${exportedClassName}'.`
+                                : `Wrapper filename '${fileName}' (base '${baseName}') does not match any of the exported class names: ${classNames.map(name => `'${name}'`).join(', ')}.`,
+                            code: 'class-mismatch',
+                            // No rename fix: renaming the wrapper alone would split it from its compile file, tests and contract
+                            data: { baseName, classNames }
+                        });
                     }
                 } catch (readError: any) {
                     errors.push({
                         type: ErrorType.StructureValidation, // Or a specific file read error type?
                         file: relativePath,
-                        message: `Failed to read wrapper file '${fileName}': ${readError.message}`
+                        message: `Failed to read wrapper file '${fileName}': ${readError.message}`,
+                        code: 'read-error'
                     });
                 }
             }
@@ -90,9 +116,23 @@ export async function checkWrapperNaming(projectRoot: string): Promise<LinterErr
          errors.push({
             type: ErrorType.StructureValidation, 
             file: path.join(path.relative(projectRoot, wrapperDir) || 'wrappers', ''), // Indicate error relates to the directory scan
-            message: `Error scanning wrappers directory: ${globError.message}`
+            message: `Error scanning wrappers directory: ${globError.message}`,
+            code: 'scan-error'
         });
     }
 
     return errors;
-} 
\ No newline at end of file
+} 
+
+export const wrapperNamingRule: Rule = {
+    id: RuleId.WrapperNaming,
+    description: 'Wrapper files use PascalCase and are named after the class they export.',
+    docsUrl: ruleDocsUrl(RuleId.WrapperNaming),
+    defaultSeverity: Severity.Error,
+    inputs: ['wrappers/**'],
+    optionsSchema: {
+        pattern: { type: 'string', description: 'Regular expression the wrapper base name must match.' },
+        missingClass: { type: 'string', enum: ['error', 'warning', 'warn', 'info', 'off'], description: 'Severity for wrappers that export no class.' }
+    },
+    run: ({ projectRoot, options, index }) => checkWrapperNaming(projectRoot, toRegExp(options.pattern), toSeverityOption(options.missingClass), index)
+};
@@ -0,0 +1,119 @@
+import path from 'path';
+import { LinterError, ErrorType, RuleId, Severity } from './types';
+import { ProjectIndex } from './utils/projectIndex';
+
+const DIRECTIVE_PREFIX = 'blueprint-linter-';
+// Comment openers per file type: `//` and `/*` for TypeScript and Tact, `;;` and `{-` for FunC
+const COMMENT_OPENERS: Record<string, string> = {
+    '.ts': '\\/\\/|\\/\\*',
+    '.tact': '\\/\\/|\\/\\*',
+    '.fc': ';;|\\{-',
+    '.func': ';;|\\{-'
+};
+export const SUPPRESSIBLE_EXTENSIONS = Object.keys(COMMENT_OPENERS);
+
+type DirectiveKind = 'disable' | 'disable-next-line';
+
+export interface SuppressionDirective {
+    file: string; // Relative to the scan path
+    line: number; // 1-based line of the comment
+    kind: DirectiveKind;
+    ruleIds: string[]; // Empty for every rule
+}
+
+/**
+ * Extracts `blueprint-linter-disable` and `blueprint-linter-disable-next-line` comments.
+ * Rule ids follow the directive, separated by commas or spaces; `--` starts a free-form reason.
+ * @param file Path the directives are reported against.
+ * @param content Source of the file; its extension selects the comment syntax.
+ */
+export function parseSuppressionDirectives(file: string, content: string): SuppressionDirective[] {
+    const openers = COMMENT_OPENERS[path.extname(file)];
+    if (!openers) return [];
+    const regex = new RegExp(`(?:${openers})\\s*${DIRECTIVE_PREFIX}(disable-next-line|disable)\\b(.*)$`);
+
+    const directives: SuppressionDirective[] = [];
+    content.split(/\r?\n/).forEach((text, index) => {
+        const match = text.match(regex);
+        if (!match) return;
+        const ruleList = match[2].replace(/\*\/.*$|-}.*$/, '').split('--')[0];
+        directives.push({
+            file,
+            line: index + 1,
+            kind: match[1] as DirectiveKind,
+            ruleIds: ruleList.split(/[\s,]+/).filter(ruleId => ruleId.length > 0)
+        });
+    });
+    return directives;
+}
+
+/**
+ * Reads the suppression directives in the source files of the given projects.
+ * @param projects File indexes of the projects.
+ * @param isIgnored Files to skip.
+ */
+export async function collectSuppressionDirectives(
+    absoluteScanPath: string,
+    projects: ProjectIndex[],
+    isIgnored: (absolutePath: string) => boolean = () => false
+): Promise<SuppressionDirective[]> {
+    const directives: SuppressionDirective[] = [];
+    const seen = new Set<string>();
+    const pattern = `**/*.{${SUPPRESSIBLE_EXTENSIONS.map(extension => extension.slice(1)).join(',')}}`;
+    for (const project of projects) {
+        for (const relativeFile of project.glob(pattern, ['**/*.d.ts'])) {
+            const file = path.join(project.root, relativeFile);
+            // Nested projects share files with the projects around them
+            if (seen.has(file) || isIgnored(file)) continue;
+            seen.add(file);
+            const content = await project.readFile(file);
+            if (!content.includes(DIRECTIVE_PREFIX)) continue;
+            directives.push(...parseSuppressionDirectives(path.relative(absoluteScanPath, file), content));
+        }
+    }
+    return directives;
+}
+
+function suppresses(directive: SuppressionDirective, finding: LinterError): boolean {
+    if (directive.file !== finding.file) return false;
+    if (directive.kind === 'disable-next-line' && finding.line !== directive.line + 1) return false;
+    return directive.ruleIds.length === 0 || (!!finding.ruleId && directive.ruleIds.includes(finding.ruleId));
+}
+
+/**
+ * Drops the findings that a directive suppresses and reports directives, or rule ids
+ * within them, that suppressed nothing.
+ * @returns The remaining findings and `unused-suppression` findings for the unused directives.
+ */
+export function applySuppressions(findings: LinterError[], directives: SuppressionDirective[]): { findings: LinterError[]; unused: LinterError[] } {
+    const usedRules = new Map<SuppressionDirective, Set<string>>(directives.map(directive => [directive, new Set()]));
+    const remaining = findings.filter(finding => {
+        const matching = directives.filter(directive => suppresses(directive, finding));
+        matching.forEach(directive => usedRules.get(directive)!.add(finding.ruleId || ''));
+        return matching.length === 0;
+    });
+
+    const unused: LinterError[] = [];
+    for (const [directive, used] of usedRules) {
+        const name = `${DIRECTIVE_PREFIX}${directive.kind}`;
+        const report = (message: string, ruleId?: string) => unused.push({
+            type: ErrorType.UnusedSuppression,
+            file: directive.file,
+            line: directive.line,
+            message,
+            code: 'unused-directive',
+            data: { directive: name, ...(ruleId ? { ruleId } : {}) },
+            ruleId: RuleId.UnusedSuppression,
+            severity: Severity.Warning
+        });
+        if (directive.ruleIds.length === 0) {
+            if (used.size === 0) report(`Unused ${name} directive (no problems were reported).`);
+            continue;
+        }
+        directive.ruleIds
+            .filter(ruleId => !used.has(ruleId))
+            .forEach(ruleId => report(`Unused ${name} directive (no problems were reported from '${ruleId}').`, ruleId));
+    }
+
+    return { findings: remaining, unused };
+}
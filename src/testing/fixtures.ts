@@ -0,0 +1,36 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after } from 'node:test';
+
+/**
+ * Writes a directory tree into a fresh temporary directory, removed when the test file ends.
+ * @param files File contents keyed by path relative to the fixture root, with '/' separators.
+ * @returns The fixture's absolute path.
+ */
+export function createFixture(files: Record<string, string>): string {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-linter-')));
+    writeFiles(root, files);
+    after(() => fs.rmSync(root, { recursive: true, force: true }));
+    return root;
+}
+
+export function writeFiles(root: string, files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const absolutePath = path.join(root, file);
+        fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+        fs.writeFileSync(absolutePath, content, 'utf-8');
+    }
+}
+
+/**
+ * The files of a minimal valid Blueprint project, to extend with the files a test is about.
+ */
+export function blueprintProject(files: Record<string, string> = {}): Record<string, string> {
+    return {
+        'package.json': JSON.stringify({ name: 'fixture', devDependencies: { '@ton-ai-core/blueprint': '^0.1.0' } }),
+        'node_modules/@ton-ai-core/blueprint/package.json': JSON.stringify({ name: '@ton-ai-core/blueprint', version: '0.1.0' }),
+        'blueprint.config.ts': "import { Config } from '@ton-ai-core/blueprint';\nexport const config: Config = {};\n",
+        ...files
+    };
+}
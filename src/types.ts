@@ -1,12 +1,236 @@
+import { ProjectIndex } from './utils/projectIndex';
+
 export enum ErrorType {
     StructureValidation = 'STRUCTURE_VALIDATION',
     BrokenProject = 'BROKEN_PROJECT',
     NamingConsistency = 'NAMING_CONSISTENCY',
-    MissingContract = 'MISSING_CONTRACT'
+    MissingContract = 'MISSING_CONTRACT',
+    InvalidConfig = 'INVALID_CONFIG',
+    Correspondence = 'CORRESPONDENCE',
+    ImportResolution = 'IMPORT_RESOLUTION',
+    UnreachableFile = 'UNREACHABLE_FILE',
+    ScriptEntryPoint = 'SCRIPT_ENTRY_POINT',
+    UnusedSuppression = 'UNUSED_SUPPRESSION',
+    TactConfig = 'TACT_CONFIG',
+    BlueprintConfig = 'BLUEPRINT_CONFIG',
+    DependencyVersions = 'DEPENDENCY_VERSIONS',
+    TestFile = 'TEST_FILE'
+}
+
+export enum RuleId {
+    RootFolder = 'root-folder',
+    BrokenProject = 'broken-project',
+    ProjectStructure = 'project-structure',
+    BlueprintConfig = 'blueprint-config',
+    DependencyVersions = 'dependency-versions',
+    ContractNaming = 'contract-naming',
+    DuplicateContractNames = 'duplicate-contract-names',
+    WrapperNaming = 'wrapper-naming',
+    ScriptNaming = 'script-naming',
+    ScriptEntryPoint = 'script-entry-point',
+    TestFiles = 'test-files',
+    ContractFilesExist = 'contract-files-exist',
+    ContractCorrespondence = 'contract-correspondence',
+    TactConfig = 'tact-config',
+    TactImports = 'tact-imports',
+    FuncIncludes = 'func-includes',
+    UnreachableFiles = 'unreachable-files',
+    UnusedSuppression = 'unused-suppression'
 }
 
+export enum Severity {
+    Error = 'error',
+    Warning = 'warning',
+    Info = 'info'
+}
+
+/**
+ * An automatic fix for a finding: rename `file` to `newName` within the same directory.
+ * References to the file are rewritten when the fix is applied.
+ */
+export interface RenameFix {
+    kind: 'rename';
+    newName: string;
+}
+
+/**
+ * A finding. Tools should tell findings apart by `ruleId` and `code` rather than by `message`,
+ * which is meant for people and may change between versions.
+ * Locations are 1-based; the end of a range is exclusive, as in SARIF and ESLint.
+ */
 export interface LinterError {
     type: ErrorType;
     file: string; // Path to the file or directory where the error occurred
+    line?: number; // Line in `file` the error points at; findings about a whole file have none
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
     message: string;
-} 
\ No newline at end of file
+    ruleId?: string; // Rule that produced the error, used to apply config overrides; config errors have none
+    code?: string; // Stable identifier of the problem within its rule, e.g. 'missing-wrapper'
+    data?: Record<string, unknown>; // Values the message was built from, such as expected and actual names
+    severity?: Severity; // Resolved from the config before reporting; defaults to error
+    fix?: RenameFix;
+    redact?: boolean; // The range holds a secret, such as an API key, that reporters showing source must hide
+}
+
+export type SourceRange = Required<Pick<LinterError, 'line' | 'column' | 'endLine' | 'endColumn'>>;
+
+export interface LintOptions {
+    dirs?: string[]; // Directories to scan for contract files; overrides the `contract-naming` dirs option
+    fix?: boolean; // Apply rename fixes and rewrite references
+    fixDryRun?: boolean; // Compute fixes and their diff without writing anything
+    cache?: boolean; // Reuse rule results whose inputs, rule version and config are unchanged since the last run
+    cacheLocation?: string; // Cache file, or directory to keep it in; defaults to node_modules/.cache/blueprint-linter
+    // Baseline file, relative to the scan path; defaults to blueprint-linter-baseline.json and is only
+    // used when it exists. `false` reports every finding.
+    baseline?: string | false;
+    writeBaseline?: boolean; // Record the current findings in the baseline file, so none of them is reported
+    // Absolute paths of changed files, e.g. from git. Only projects containing one are linted, only rules
+    // whose `inputs` match one run, and findings are scoped to them as described for RuleMeta.scope.
+    changedFiles?: string[];
+    concurrency?: number; // Projects linted at the same time; defaults to 4
+}
+
+/**
+ * - `valid`: has `package.json` and passed the structure check; all rules ran on it.
+ * - `invalid`: has `package.json` but failed the structure check.
+ * - `broken`: has characteristic folders but no `package.json`.
+ * - `workspace`: an npm, yarn or pnpm workspace root; it holds projects and is not checked itself.
+ */
+export type ProjectStatus = 'valid' | 'invalid' | 'broken' | 'workspace';
+
+export interface ProjectResult {
+    root: string; // Absolute path
+    relativeRoot: string; // Relative to the scan path, '.' for the scan path itself
+    status: ProjectStatus;
+    findings: LinterError[];
+    errorCount: number;
+    warningCount: number;
+}
+
+export interface FixResult {
+    fixed: LinterError[]; // Findings resolved by an applied rename
+    skipped: { file: string; newName: string; reason: string }[];
+    diff: string; // Unified diff of every planned change, relative to the scan path
+}
+
+/**
+ * A known finding recorded in a baseline file. Findings match an entry by rule id, file and
+ * a hash of the message, so they survive edits that only move them to other lines.
+ */
+export interface BaselineEntry {
+    ruleId: string; // The finding's `type` for findings without a rule
+    file: string; // Relative to the baseline file's directory
+    fingerprint: string;
+    message: string; // For people reading the file; matching uses the fingerprint
+    count: number; // How many identical findings the file had
+}
+
+export interface BaselineResult {
+    file: string; // Absolute path of the baseline file
+    baselined: LinterError[]; // Findings left out of `findings` because the baseline records them
+    stale: BaselineEntry[]; // Entries that no longer occur, with `count` set to the number of missing findings
+}
+
+export interface LintResult {
+    scanPath: string; // Absolute path that finding paths are relative to
+    findings: LinterError[]; // Remaining findings, with severities resolved
+    projects: ProjectResult[];
+    rules: RuleMeta[]; // Every known rule, including plugin rules
+    errorCount: number;
+    warningCount: number;
+    infoCount: number;
+    fixes?: FixResult; // Present when `fix` or `fixDryRun` was requested
+    baseline?: BaselineResult; // Present when a baseline file was used
+}
+
+export interface ReporterContext {
+    scanPath: string; // Absolute path the finding paths are relative to
+    version: string; // Linter version, for formats that record the tool
+    color: boolean; // Whether the output may contain ANSI colors
+    rules?: RuleMeta[]; // Metadata of the rules that ran, when known
+    projects?: ProjectResult[]; // Projects found, when known, for reporters that group findings by project
+}
+
+/**
+ * Formats findings for output. Built-in reporters live in `src/reporters`;
+ * external reporters are modules exporting a Reporter as `default` or `reporter`.
+ */
+export interface Reporter {
+    name: string;
+    format(findings: LinterError[], context: ReporterContext): string;
+}
+
+/**
+ * A rule setting in the config file: `"on"`/`"off"` (or a boolean), or a severity
+ * (`"error"`, `"warning"`/`"warn"`, `"info"`) which also turns the rule on.
+ * Optionally paired with rule options as `["on", { ... }]`.
+ */
+export type RuleToggle = 'on' | 'off' | boolean | 'error' | 'warning' | 'warn' | 'info';
+export type RuleSetting = RuleToggle | [RuleToggle, Record<string, any>?];
+
+export interface LinterSettings {
+    characteristicFolders?: string[]; // Folders that mark a directory as a (possibly broken) project
+}
+
+export interface ConfigOverride {
+    files: string | string[]; // Glob patterns relative to the config file's directory
+    rules?: Record<string, RuleSetting>;
+}
+
+export interface LinterConfig {
+    root?: boolean; // Stop looking for configs in parent directories
+    settings?: LinterSettings;
+    plugins?: string[]; // npm packages (or paths) providing additional rules
+    rules?: Record<string, RuleSetting>;
+    overrides?: ConfigOverride[];
+}
+
+export interface RuleOptionSchema {
+    type: 'string' | 'string[]' | 'boolean' | 'number';
+    description: string;
+    enum?: string[]; // Allowed values for string options, or for each item of string[] options
+}
+
+export type RuleOptionsSchema = Record<string, RuleOptionSchema>;
+
+/**
+ * Describes a rule for config validation, documentation and reporters.
+ */
+export interface RuleMeta {
+    id: string; // Plugin rules are namespaced as `<plugin>/<rule>` when registered
+    description: string;
+    docsUrl: string;
+    defaultSeverity: Severity;
+    optionsSchema?: RuleOptionsSchema;
+    // Globs, relative to the project root, of files whose changes can change the rule's findings.
+    // Watch mode re-runs a rule only when a matching file changes; without `inputs`, any change does.
+    inputs?: string[];
+    // Absolute paths of files the rule reads beyond `inputs`, such as installed packages in node_modules
+    // or modules a config imports, which may not exist. They count as inputs for the cache, `changedFiles` and watch mode.
+    extraInputs?(projectRoot: string): string[];
+    // 'project' for rules whose findings on one file can be caused by changes to another, such as
+    // duplicate names or unresolved imports. With `changedFiles`, findings of 'file' rules are only
+    // reported on changed files, while 'project' rules report on every file of a changed project.
+    scope?: 'file' | 'project';
+    version?: string; // Bump when the rule's logic changes, so cached results are discarded
+}
+
+export interface RuleContext {
+    projectRoot: string; // Absolute path of the project being checked
+    options: Record<string, any>; // Rule options from the config
+    settings: LinterSettings;
+    lintOptions: LintOptions;
+    isIgnored: (absolutePath: string) => boolean; // Whether `.blueprintlinterignore` excludes a file or directory
+    index: ProjectIndex; // The project's files, with contents and parses shared by every rule of the run
+}
+
+/**
+ * A rule that runs once per valid project. Findings use paths relative to
+ * `projectRoot`; the runner rebases them, stamps the rule id and applies the
+ * default severity to findings that don't carry their own.
+ */
+export interface Rule extends RuleMeta {
+    run(context: RuleContext): Promise<LinterError[]>;
+}
@@ -40,4 +40,28 @@ export function getNormalizedBaseName(filePath: string): string {
       return normalizeToSnakeCase(baseWithoutTestSuffix);
     }
     return normalizeToSnakeCase(base);
-} 
\ No newline at end of file
+}
+
+/**
+ * Converts a snake_case, kebab-case or camelCase string to PascalCase.
+ * Existing capitals are kept (e.g., jetton_wallet -> JettonWallet, nftItem -> NftItem).
+ * @param str The input string.
+ * @returns The PascalCase version of the string.
+ */
+export function toPascalCase(str: string): string {
+    return str
+        .split(/[_\-\s]+/)
+        .filter(part => part.length > 0)
+        .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+        .join('');
+}
+
+/**
+ * Converts a snake_case, kebab-case or PascalCase string to lowerCamelCase.
+ * @param str The input string.
+ * @returns The lowerCamelCase version of the string.
+ */
+export function toLowerCamelCase(str: string): string {
+    const pascal = toPascalCase(str);
+    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createFixture } from '../testing/fixtures';
+import { findInstalledPackage, findLockfile, getPackageName, readLockfile } from './packages';
+
+const NAMES = ['@ton/core', '@ton/sandbox'];
+
+test('getPackageName strips subpaths, keeping scopes', () => {
+    assert.equal(getPackageName('@ton/core/dist/boc'), '@ton/core');
+    assert.equal(getPackageName('lodash/fp'), 'lodash');
+});
+
+test('findInstalledPackage finds hoisted packages and their peers', () => {
+    const root = createFixture({
+        'node_modules/@ton/sandbox/package.json': JSON.stringify({
+            name: '@ton/sandbox',
+            version: '0.20.0',
+            peerDependencies: { '@ton/core': '>=0.56.0', '@ton/crypto': '>=3.2.0' },
+            peerDependenciesMeta: { '@ton/crypto': { optional: true } }
+        }),
+        'packages/app/package.json': '{}'
+    });
+    const installed = findInstalledPackage(path.join(root, 'packages/app'), '@ton/sandbox');
+    assert.equal(installed?.dir, path.join(root, 'node_modules/@ton/sandbox'));
+    assert.equal(installed?.version, '0.20.0');
+    assert.deepEqual(installed?.peerDependencies, { '@ton/core': '>=0.56.0', '@ton/crypto': '>=3.2.0' });
+    assert.deepEqual([...installed!.optionalPeers], ['@ton/crypto']);
+    assert.equal(findInstalledPackage(path.join(root, 'packages/app'), '@ton/core'), undefined);
+});
+
+test('readLockfile reads package-lock.json v3 and v1', () => {
+    const v3 = createFixture({
+        'package-lock.json': JSON.stringify({
+            lockfileVersion: 3,
+            packages: { '': {}, 'node_modules/@ton/core': { version: '0.60.1' }, 'node_modules/@ton/sandbox': { version: '0.20.0' } }
+        })
+    });
+    assert.deepEqual(readLockfile(v3, NAMES), { file: 'package-lock.json', versions: new Map([['@ton/core', '0.60.1'], ['@ton/sandbox', '0.20.0']]) });
+
+    const v1 = createFixture({ 'package-lock.json': JSON.stringify({ lockfileVersion: 1, dependencies: { '@ton/core': { version: '0.59.0' } } }) });
+    assert.deepEqual(readLockfile(v1, NAMES)?.versions, new Map([['@ton/core', '0.59.0']]));
+});
+
+test('readLockfile uses the workspace root lockfile, preferring the member\'s own copy', () => {
+    const root = createFixture({
+        'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+        'package-lock.json': JSON.stringify({
+            lockfileVersion: 3,
+            packages: {
+                'node_modules/@ton/core': { version: '0.60.1' },
+                'packages/app/node_modules/@ton/core': { version: '0.58.0' },
+                'node_modules/@ton/sandbox': { version: '0.20.0' }
+            }
+        }),
+        'packages/app/package.json': '{}'
+    });
+    const app = path.join(root, 'packages/app');
+    assert.deepEqual(findLockfile(app), { path: path.join(root, 'package-lock.json'), member: 'packages/app' });
+    assert.deepEqual(readLockfile(app, NAMES), { file: '../../package-lock.json', versions: new Map([['@ton/core', '0.58.0'], ['@ton/sandbox', '0.20.0']]) });
+});
+
+test('readLockfile reads classic and Berry yarn.lock, picking the entry for the declared range', () => {
+    const classic = createFixture({
+        'yarn.lock': [
+            '# yarn lockfile v1',
+            '',
+            '"@ton/core@^0.56.0":',
+            '  version "0.56.3"',
+            '',
+            '"@ton/core@^0.60.0", "@ton/core@~0.60.1":',
+            '  version "0.60.2"',
+            '  resolved "https://registry.yarnpkg.com/@ton/core/-/core-0.60.2.tgz"',
+            ''
+        ].join('\n')
+    });
+    assert.deepEqual(readLockfile(classic, NAMES, { '@ton/core': '^0.56.0' })?.versions, new Map([['@ton/core', '0.56.3']]));
+    assert.deepEqual(readLockfile(classic, NAMES, { '@ton/core': '^0.60.0' })?.versions, new Map([['@ton/core', '0.60.2']]));
+
+    const berry = createFixture({
+        'yarn.lock': [
+            '__metadata:',
+            '  version: 8',
+            '',
+            '"@ton/sandbox@npm:^0.20.0":',
+            '  version: 0.20.1',
+            '  resolution: "@ton/sandbox@npm:0.20.1"',
+            ''
+        ].join('\n')
+    });
+    assert.deepEqual(readLockfile(berry, NAMES, { '@ton/sandbox': '^0.20.0' }), { file: 'yarn.lock', versions: new Map([['@ton/sandbox', '0.20.1']]) });
+});
+
+test('readLockfile reads pnpm-lock.yaml importers and the older top-level maps', () => {
+    const importers = createFixture({
+        'pnpm-lock.yaml': [
+            "lockfileVersion: '9.0'",
+            '',
+            'importers:',
+            '  .:',
+            '    devDependencies:',
+            "      '@ton/core':",
+            '        specifier: ^0.60.0',
+            '        version: 0.60.1(@ton/crypto@3.3.0)',
+            ''
+        ].join('\n')
+    });
+    assert.deepEqual(readLockfile(importers, NAMES)?.versions, new Map([['@ton/core', '0.60.1']]));
+
+    const legacy = createFixture({
+        'pnpm-lock.yaml': ['lockfileVersion: 5.4', '', 'devDependencies:', "  '@ton/sandbox': 0.19.0", ''].join('\n')
+    });
+    assert.deepEqual(readLockfile(legacy, NAMES)?.versions, new Map([['@ton/sandbox', '0.19.0']]));
+});
+
+test('readLockfile returns undefined without a lockfile and throws on a broken one', () => {
+    assert.equal(readLockfile(createFixture({ 'package.json': '{}' }), NAMES), undefined);
+    assert.throws(() => readLockfile(createFixture({ 'package-lock.json': '{ not json' }), NAMES));
+});
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { findWorkspaceRoot } from '../workspaces';
+
+export const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+
+export interface InstalledPackage {
+    dir: string; // Absolute path of the package directory
+    version?: string;
+    peerDependencies: Record<string, string>;
+    optionalPeers: Set<string>;
+}
+
+export interface Lockfile {
+    file: string; // Path relative to the project root; workspace packages use the workspace root's lockfile
+    versions: Map<string, string>; // Locked version of each direct dependency
+}
+
+/**
+ * The package a module specifier refers to: `@scope/name/sub` -> `@scope/name`, `name/sub` -> `name`.
+ */
+export function getPackageName(specifier: string): string {
+    const parts = specifier.split('/');
+    return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * The manifests `findInstalledPackage` looks for, nearest first: `node_modules/<name>/package.json`
+ * in the project and each of its parents.
+ */
+export function getInstalledPackageCandidates(projectRoot: string, name: string): string[] {
+    const candidates: string[] = [];
+    for (let dir = projectRoot; ; dir = path.dirname(dir)) {
+        candidates.push(path.join(dir, 'node_modules', name, 'package.json'));
+        if (dir === path.dirname(dir)) return candidates;
+    }
+}
+
+/**
+ * Finds the copy of a package the project would load, looking in `node_modules` of the
+ * project and its parents as Node's resolution does, so hoisted packages count.
+ * @returns undefined when the package is not installed.
+ */
+export function findInstalledPackage(projectRoot: string, name: string): InstalledPackage | undefined {
+    for (const manifestPath of getInstalledPackageCandidates(projectRoot, name)) {
+        const packageDir = path.dirname(manifestPath);
+        if (fs.existsSync(manifestPath)) {
+            let manifest: any = {};
+            try {
+                manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+            } catch {
+                // Still installed, just without readable metadata
+            }
+            return {
+                dir: packageDir,
+                version: typeof manifest.version === 'string' ? manifest.version : undefined,
+                peerDependencies: manifest.peerDependencies || {},
+                optionalPeers: new Set(Object.keys(manifest.peerDependenciesMeta || {}).filter(peer => manifest.peerDependenciesMeta[peer]?.optional))
+            };
+        }
+    }
+    return undefined;
+}
+
+// package-lock.json v2/v3 list packages by install path; v1 nests them under `dependencies`
+function readPackageLock(content: string, names: string[], member: string): Map<string, string> {
+    const data = JSON.parse(content);
+    const versions = new Map<string, string>();
+    for (const name of names) {
+        // A workspace package's own copy comes before the hoisted one
+        const nested = member ? data.packages?.[`${member}/node_modules/${name}`]?.version : undefined;
+        const version = nested ?? data.packages?.[`node_modules/${name}`]?.version ?? data.dependencies?.[name]?.version;
+        if (typeof version === 'string') versions.set(name, version);
+    }
+    return versions;
+}
+
+// Splits a `name@range` descriptor, keeping the scope's `@`
+function splitDescriptor(descriptor: string): { name: string; range: string } {
+    const at = descriptor.indexOf('@', 1);
+    return at < 0 ? { name: descriptor, range: '' } : { name: descriptor.slice(0, at), range: descriptor.slice(at + 1).replace(/^npm:/, '') };
+}
+
+// yarn.lock, classic (`version "1.2.3"`) and Berry (`version: 1.2.3`)
+function readYarnLock(content: string, names: string[], ranges: Record<string, string>): Map<string, string> {
+    const versions = new Map<string, string>();
+    let descriptors: { name: string; range: string }[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        if (/^\S.*:$/.test(line) && !line.startsWith('#')) {
+            descriptors = line.slice(0, -1).split(/,\s*/).map(descriptor => splitDescriptor(descriptor.replace(/^"|"$/g, '')));
+            continue;
+        }
+        const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+        if (!version) continue;
+        for (const { name, range } of descriptors) {
+            // Several entries can lock one package; prefer the one for the declared range
+            if (names.includes(name) && (!versions.has(name) || range === ranges[name])) versions.set(name, version[1]);
+        }
+        descriptors = [];
+    }
+    return versions;
+}
+
+/**
+ * Reads the scalar values of a YAML document by key path (`a/b/c`). Only the block-mapping
+ * subset lockfiles use is understood.
+ */
+function readYamlScalars(content: string): Map<string, string> {
+    const scalars = new Map<string, string>();
+    const stack: { indent: number; key: string }[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const match = /^(\s*)('[^']*'|"[^"]*"|[^\s:'"][^:]*?):(?:\s+(.*))?$/.exec(line);
+        if (!match || line.trimStart().startsWith('#')) continue;
+        const indent = match[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        const key = match[2].replace(/^['"]|['"]$/g, '');
+        stack.push({ indent, key });
+        if (match[3] !== undefined && match[3] !== '') {
+            scalars.set(stack.map(entry => entry.key).join('/'), match[3].replace(/^['"]|['"]$/g, ''));
+        }
+    }
+    return scalars;
+}
+
+// pnpm-lock.yaml: `importers` in v6+, top-level dependency maps before that
+function readPnpmLock(content: string, names: string[], member: string): Map<string, string> {
+    const scalars = readYamlScalars(content);
+    const versions = new Map<string, string>();
+    for (const name of names) {
+        for (const prefix of member ? [`importers/${member}/`] : ['importers/./', '']) {
+            for (const group of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+                const version = scalars.get(`${prefix}${group}/${name}/version`) ?? scalars.get(`${prefix}${group}/${name}`);
+                // `1.2.3(peer@4.5.6)` records the peers the copy was resolved with
+                if (version && !versions.has(name)) versions.set(name, version.replace(/\(.*$/, ''));
+            }
+        }
+    }
+    return versions;
+}
+
+/**
+ * The lockfiles `findLockfile` looks for, in the order it tries them: the project's own, then
+ * for a workspace package the ones at the workspace root.
+ */
+export function getLockfileCandidates(projectRoot: string): string[] {
+    const workspaceRoot = findWorkspaceRoot(projectRoot);
+    return (workspaceRoot ? [projectRoot, workspaceRoot] : [projectRoot]).flatMap(dir => LOCKFILES.map(file => path.join(dir, file)));
+}
+
+/**
+ * Finds the lockfile that pins the project's dependencies: its own, or for a workspace package
+ * the one at the workspace root. `package-lock.json`, `yarn.lock` and `pnpm-lock.yaml` are
+ * tried in that order.
+ * @returns The lockfile's absolute path and the project's path relative to the lockfile's directory.
+ */
+export function findLockfile(projectRoot: string): { path: string; member: string } | undefined {
+    const file = getLockfileCandidates(projectRoot).find(candidate => fs.existsSync(candidate));
+    return file ? { path: file, member: path.relative(path.dirname(file), projectRoot).split(path.sep).join('/') } : undefined;
+}
+
+/**
+ * Reads the locked versions of the given packages from the project's lockfile (see `findLockfile`).
+ * @param ranges Declared ranges, used to pick among several yarn entries of one package.
+ * @returns undefined when the project has no lockfile.
+ * @throws When the lockfile cannot be read or parsed.
+ */
+export function readLockfile(projectRoot: string, names: string[], ranges: Record<string, string> = {}): Lockfile | undefined {
+    const lockfile = findLockfile(projectRoot);
+    if (!lockfile) return undefined;
+    const content = fs.readFileSync(lockfile.path, 'utf-8');
+    const fileName = path.basename(lockfile.path);
+    const versions =
+        fileName === 'package-lock.json' ? readPackageLock(content, names, lockfile.member)
+        : fileName === 'yarn.lock' ? readYarnLock(content, names, ranges)
+        : readPnpmLock(content, names, lockfile.member);
+    return { file: path.relative(projectRoot, lockfile.path).split(path.sep).join('/'), versions };
+}
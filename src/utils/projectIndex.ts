@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { glob } from 'glob';
+import { minimatch } from 'minimatch';
+import { parseTypeScript } from './typescriptSource';
+
+/**
+ * The files of one project, listed once and shared by every rule that runs on it, with
+ * file contents and TypeScript parses kept for the rest of the run.
+ */
+export interface ProjectIndex {
+    root: string; // Absolute path of the project
+    files: string[]; // Every file of the project, relative to it with '/' separators, sorted; without node_modules and .git
+    // Files matching any of the patterns, relative to the project root, sorted. Patterns are matched
+    // the way `glob` matches them, so `*` and `**` skip dotfiles; `ignore` removes matches.
+    glob(patterns: string | string[], ignore?: string[]): string[];
+    readFile(file: string): Promise<string>; // Absolute path
+    parseTypeScript(file: string): Promise<ts.SourceFile>; // Absolute path
+    // Computes a value derived from the project, such as its source graph, once per index
+    memo<T>(key: string, compute: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Lists a project's files in one walk. Files created or removed afterwards are not seen, so
+ * an index is meant for one run of the rules.
+ * @param projectRoot Absolute path to the project root.
+ */
+export async function createProjectIndex(projectRoot: string): Promise<ProjectIndex> {
+    const files = (await glob('**', { cwd: projectRoot, nodir: true, dot: true, ignore: ['**/node_modules/**', '**/.git/**'] }))
+        .map(file => file.split(path.sep).join('/'))
+        .sort();
+    const contents = new Map<string, Promise<string>>();
+    const sourceFiles = new Map<string, Promise<ts.SourceFile>>();
+    const memos = new Map<string, Promise<unknown>>();
+
+    const readFile = (file: string) => {
+        let content = contents.get(file);
+        if (!content) {
+            content = fs.promises.readFile(file, 'utf-8');
+            contents.set(file, content);
+        }
+        return content;
+    };
+
+    return {
+        root: projectRoot,
+        files,
+        glob: (patterns, ignore = []) => {
+            const include = Array.isArray(patterns) ? patterns : [patterns];
+            return files
+                .filter(file => include.some(pattern => minimatch(file, pattern)) && !ignore.some(pattern => minimatch(file, pattern)))
+                .map(file => file.split('/').join(path.sep));
+        },
+        readFile,
+        parseTypeScript: file => {
+            let sourceFile = sourceFiles.get(file);
+            if (!sourceFile) {
+                sourceFile = readFile(file).then(content => parseTypeScript(file, content));
+                sourceFiles.set(file, sourceFile);
+            }
+            return sourceFile;
+        },
+        memo: <T>(key: string, compute: () => Promise<T>) => {
+            let value = memos.get(key) as Promise<T> | undefined;
+            if (!value) {
+                value = compute();
+                memos.set(key, value);
+            }
+            return value;
+        }
+    };
+}
@@ -0,0 +1,26 @@
+import { Severity } from '../types';
+
+export const DOCS_BASE_URL = 'https://github.com/ton-ai-core/blueprint-linter/blob/main/README.md';
+
+/**
+ * Returns the documentation link for a built-in rule.
+ */
+export function ruleDocsUrl(ruleId: string): string {
+    return `${DOCS_BASE_URL}#${ruleId}`;
+}
+
+/**
+ * Compiles a pattern option from the config, falling back to the rule's default when absent.
+ */
+export function toRegExp(pattern: unknown): RegExp | undefined {
+    return typeof pattern === 'string' ? new RegExp(pattern) : undefined;
+}
+
+/**
+ * Reads a severity-valued rule option ("error", "warning"/"warn", "info" or "off").
+ */
+export function toSeverityOption(value: unknown): Severity | 'off' | undefined {
+    if (value === 'off') return 'off';
+    if (value === 'warn') return Severity.Warning;
+    return Object.values(Severity).find(severity => severity === value);
+}
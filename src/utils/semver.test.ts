@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseVersion, satisfies } from './semver';
+
+test('parseVersion reads exact versions and rejects partial ones', () => {
+    assert.deepEqual(parseVersion('1.2.3-beta.1'), { major: 1, minor: 2, patch: 3, prerelease: ['beta', '1'] });
+    assert.deepEqual(parseVersion('v0.60.0+build'), { major: 0, minor: 60, patch: 0, prerelease: [] });
+    assert.equal(parseVersion('1.2'), undefined);
+    assert.equal(parseVersion('latest'), undefined);
+});
+
+test('satisfies caret and tilde ranges', () => {
+    assert.equal(satisfies('1.4.0', '^1.2.3'), true);
+    assert.equal(satisfies('2.0.0', '^1.2.3'), false);
+    // Below 1.0.0 the caret locks the minor version
+    assert.equal(satisfies('0.60.5', '^0.60.0'), true);
+    assert.equal(satisfies('0.61.0', '^0.60.0'), false);
+    assert.equal(satisfies('0.0.4', '^0.0.3'), false);
+    assert.equal(satisfies('1.2.9', '~1.2.3'), true);
+    assert.equal(satisfies('1.3.0', '~1.2.3'), false);
+});
+
+test('satisfies x-ranges, hyphen ranges, comparators and alternatives', () => {
+    assert.equal(satisfies('1.9.9', '1.x'), true);
+    assert.equal(satisfies('3.1.0', '*'), true);
+    assert.equal(satisfies('1.5.0', '1.2.3 - 1.6'), true);
+    assert.equal(satisfies('1.7.0', '1.2.3 - 1.6'), false);
+    assert.equal(satisfies('1.5.0', '>=1.2.0 <1.5.0'), false);
+    assert.equal(satisfies('3.0.0', '^1.0.0 || ^3.0.0'), true);
+});
+
+test('satisfies matches prereleases only against bounds on the same version', () => {
+    assert.equal(satisfies('1.3.0-beta.2', '^1.2.0'), false);
+    assert.equal(satisfies('1.2.0-beta.2', '^1.2.0-beta.1'), true);
+    assert.equal(satisfies('1.2.0-alpha', '^1.2.0-beta.1'), false);
+});
+
+test('satisfies cannot compare ranges that are not semver', () => {
+    assert.equal(satisfies('1.0.0', 'latest'), undefined);
+    assert.equal(satisfies('1.0.0', 'file:../blueprint'), undefined);
+    assert.equal(satisfies('next', '^1.0.0'), undefined);
+});
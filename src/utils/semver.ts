@@ -0,0 +1,166 @@
+// Just enough of npm's semver to compare installed versions with declared ranges,
+// without adding a dependency for it.
+
+interface Version {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+}
+
+// A version with trailing parts left out or written as x/*: `1`, `1.2.x`, `*`
+interface PartialVersion {
+    major?: number;
+    minor?: number;
+    patch?: number;
+    prerelease: string[];
+}
+
+interface Comparator {
+    operator: '<' | '<=' | '>' | '>=' | '=';
+    version: Version;
+}
+
+const PARTIAL_VERSION_REGEX = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+function parsePartial(text: string): PartialVersion | undefined {
+    if (text === '' || text === '*' || text.toLowerCase() === 'x') return { prerelease: [] };
+    const match = PARTIAL_VERSION_REGEX.exec(text);
+    if (!match) return undefined;
+    const [major, minor, patch] = [match[1], match[2], match[3]].map(part => (part === undefined || /[xX*]/.test(part) ? undefined : Number(part)));
+    // Everything after a wildcard is a wildcard too
+    if (major === undefined) return { prerelease: [] };
+    if (minor === undefined) return { major, prerelease: [] };
+    if (patch === undefined) return { major, minor, prerelease: [] };
+    return { major, minor, patch, prerelease: match[4] ? match[4].split('.') : [] };
+}
+
+/**
+ * Parses an exact version such as `1.2.3` or `1.2.3-beta.1`.
+ */
+export function parseVersion(text: string): Version | undefined {
+    const partial = parsePartial(text.trim());
+    return partial && partial.patch !== undefined ? (partial as Version) : undefined;
+}
+
+function compareIdentifiers(a: string, b: string): number {
+    const aNumeric = /^\d+$/.test(a);
+    const bNumeric = /^\d+$/.test(b);
+    if (aNumeric && bNumeric) return Number(a) - Number(b);
+    if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareVersions(a: Version, b: Version): number {
+    const main = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+    if (main !== 0) return main;
+    // A prerelease sorts before its release
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) return b.prerelease.length - a.prerelease.length;
+    for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+        const order = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+        if (order !== 0) return order;
+    }
+    return a.prerelease.length - b.prerelease.length;
+}
+
+const version = (major: number, minor: number, patch: number): Version => ({ major, minor, patch, prerelease: [] });
+
+// The lowest version a partial version stands for
+function lowest(partial: PartialVersion): Version {
+    return { major: partial.major || 0, minor: partial.minor || 0, patch: partial.patch || 0, prerelease: partial.prerelease };
+}
+
+// The first version past a partial version: `1.2` -> `1.3.0`, `1` -> `2.0.0`
+function next(partial: PartialVersion): Version {
+    return partial.minor === undefined ? version(partial.major! + 1, 0, 0) : version(partial.major!, partial.minor + 1, 0);
+}
+
+// Turns one comparator of a range (`^1.2`, `>=1.0.0`, `1.x`) into plain comparisons
+function desugar(text: string): Comparator[] | undefined {
+    const match = /^(<=|>=|<|>|=|\^|~>?)?(.*)$/.exec(text)!;
+    const operator = match[1] || '';
+    const partial = parsePartial(match[2]);
+    if (!partial) return undefined;
+    const exact = partial.patch !== undefined;
+    const any = partial.major === undefined;
+
+    switch (operator) {
+        case '':
+        case '=':
+            if (any) return [];
+            return exact ? [{ operator: '=', version: lowest(partial) }] : [{ operator: '>=', version: lowest(partial) }, { operator: '<', version: next(partial) }];
+        case '^': {
+            if (any) return [];
+            const { major, minor, patch } = lowest(partial);
+            const upper =
+                major > 0 || partial.minor === undefined ? version(major + 1, 0, 0)
+                : minor > 0 || partial.patch === undefined ? version(0, minor + 1, 0)
+                : version(0, 0, patch + 1);
+            return [{ operator: '>=', version: lowest(partial) }, { operator: '<', version: upper }];
+        }
+        case '~':
+        case '~>':
+            if (any) return [];
+            return [{ operator: '>=', version: lowest(partial) }, { operator: '<', version: next(partial) }];
+        case '>':
+            if (any) return [{ operator: '<', version: version(0, 0, 0) }];
+            return exact ? [{ operator: '>', version: lowest(partial) }] : [{ operator: '>=', version: next(partial) }];
+        case '>=':
+            return any ? [] : [{ operator: '>=', version: lowest(partial) }];
+        case '<':
+            return [{ operator: '<', version: any ? version(0, 0, 0) : lowest(partial) }];
+        case '<=':
+            if (any) return [];
+            return exact ? [{ operator: '<=', version: lowest(partial) }] : [{ operator: '<', version: next(partial) }];
+    }
+    return undefined;
+}
+
+function parseComparatorSet(text: string): Comparator[] | undefined {
+    const normalized = text.trim().replace(/(<=|>=|<|>|=|\^|~>?)\s+/g, '$1');
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(normalized);
+    if (hyphen) {
+        const from = desugar(`>=${hyphen[1]}`);
+        const to = desugar(`<=${hyphen[2]}`);
+        return from && to ? [...from, ...to] : undefined;
+    }
+    const comparators: Comparator[] = [];
+    for (const part of normalized.split(/\s+/).filter(Boolean)) {
+        const desugared = desugar(part);
+        if (!desugared) return undefined;
+        comparators.push(...desugared);
+    }
+    return comparators;
+}
+
+function test(comparator: Comparator, candidate: Version): boolean {
+    const order = compareVersions(candidate, comparator.version);
+    switch (comparator.operator) {
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+        case '=': return order === 0;
+    }
+}
+
+/**
+ * Whether `versionText` is in `range`, following npm's rules: `^`, `~`, x-ranges, hyphen ranges,
+ * comparators and `||`. Prereleases only match comparators on the same `major.minor.patch`
+ * that have a prerelease themselves, as in npm.
+ * @returns undefined when either side is not semver, such as `latest`, `file:` or git URLs.
+ */
+export function satisfies(versionText: string, range: string): boolean | undefined {
+    const candidate = parseVersion(versionText);
+    if (!candidate) return undefined;
+    const sets = range.split('||').map(parseComparatorSet);
+    if (sets.some(set => set === undefined)) return undefined;
+
+    return (sets as Comparator[][]).some(set => {
+        if (!set.every(comparator => test(comparator, candidate))) return false;
+        if (candidate.prerelease.length === 0) return true;
+        return set.some(({ version: bound }) =>
+            bound.prerelease.length > 0 && bound.major === candidate.major && bound.minor === candidate.minor && bound.patch === candidate.patch
+        );
+    });
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { readTactConfigPaths } from '../checks/contractFilesCheck';
+import { getCompileTargets } from './typescriptSource';
+import { createProjectIndex, ProjectIndex } from './projectIndex';
+
+const TACT_IMPORT_REGEX = /^\s*import\s+"([^"]+)"\s*;/gm;
+const FUNC_INCLUDE_REGEX = /^\s*#include\s+"([^"]+)"\s*;/gm;
+// Imports of the compiler's standard library, which lives outside the project
+const TACT_STDLIB_PREFIX = '@stdlib/';
+
+export const FUNC_EXTENSIONS = ['.fc', '.func'];
+
+// Files that can change a project's source graph, for rules built on it
+export const SOURCE_GRAPH_INPUTS = ['contracts/**', '**/*.tact', '**/*.fc', '**/*.func', '**/*.compile.ts', 'tact.config.json'];
+
+export interface ImportStatement {
+    specifier: string; // As written in the source
+    line: number; // 1-based
+}
+
+export interface SourceImport extends ImportStatement {
+    resolved?: string; // Absolute path; undefined for imports that are not project files
+    exists: boolean;
+}
+
+export interface SourceGraph {
+    files: Map<string, SourceImport[]>; // Absolute path -> imports, for every parsed file
+    entryPoints: string[]; // Absolute paths of compile targets and tact.config.json projects
+}
+
+/**
+ * Blanks out `//` and `/* *\/` comments, keeping line breaks so offsets into lines stay meaningful.
+ */
+function stripTactComments(content: string): string {
+    return content.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, comment => comment.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Blanks out `;;` and (possibly nested) `{- -}` comments of a FunC source, keeping line breaks.
+ */
+function stripFuncComments(content: string): string {
+    let result = '';
+    let depth = 0;
+    for (let i = 0; i < content.length; i++) {
+        if (content.startsWith('{-', i)) {
+            depth++;
+            result += '  ';
+            i++;
+        } else if (depth > 0 && content.startsWith('-}', i)) {
+            depth--;
+            result += '  ';
+            i++;
+        } else if (depth === 0 && content.startsWith(';;', i)) {
+            const end = content.indexOf('\n', i);
+            const stop = end === -1 ? content.length : end;
+            result += ' '.repeat(stop - i);
+            i = stop - 1;
+        } else {
+            result += depth > 0 && content[i] !== '\n' ? ' ' : content[i];
+        }
+    }
+    return result;
+}
+
+function matchStatements(content: string, regex: RegExp): ImportStatement[] {
+    return [...content.matchAll(regex)].map(match => ({
+        specifier: match[1],
+        // The match may start with the blank lines before the statement
+        line: content.slice(0, match.index! + match[0].indexOf(match[0].trim())).split('\n').length
+    }));
+}
+
+/**
+ * Extracts the `import "...";` statements of a Tact source.
+ */
+export function parseTactImports(content: string): ImportStatement[] {
+    return matchStatements(stripTactComments(content), TACT_IMPORT_REGEX);
+}
+
+/**
+ * Extracts the `#include "...";` directives of a FunC source.
+ */
+export function parseFuncIncludes(content: string): ImportStatement[] {
+    return matchStatements(stripFuncComments(content), FUNC_INCLUDE_REGEX);
+}
+
+export function isFuncFile(file: string): boolean {
+    return FUNC_EXTENSIONS.includes(path.extname(file));
+}
+
+/**
+ * Resolves a Tact import the way the compiler does: relative to the importing file,
+ * with `.tact` appended unless the specifier already names a `.tact` or `.fc` file.
+ * @returns The absolute path, or undefined for standard library imports.
+ */
+export function resolveTactImport(fromFile: string, specifier: string): string | undefined {
+    if (specifier.startsWith(TACT_STDLIB_PREFIX)) return undefined;
+    const withExtension = /\.(tact|fc)$/.test(specifier) ? specifier : `${specifier}.tact`;
+    return path.resolve(path.dirname(fromFile), withExtension);
+}
+
+/**
+ * Collects the contracts a project compiles: `path` entries of `tact.config.json`
+ * and `target`/`targets` of its `*.compile.ts` files.
+ * @returns Absolute paths, including ones that do not exist.
+ */
+export async function findEntryPoints(projectRoot: string, index?: ProjectIndex): Promise<string[]> {
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    const entryPoints = new Set(readTactConfigPaths(projectRoot).map(entry => path.resolve(projectRoot, entry)));
+    for (const compileFile of projectIndex.glob('**/*.compile.ts')) {
+        const compileFilePath = path.join(projectRoot, compileFile);
+        const content = await projectIndex.readFile(compileFilePath);
+        for (const target of getCompileTargets(compileFilePath, content).targetPaths) {
+            entryPoints.add(path.resolve(projectRoot, target));
+        }
+    }
+    return [...entryPoints];
+}
+
+/**
+ * Builds the import graph of a project's sources: every `.tact`, `.fc` and `.func` file
+ * under `contracts/`, every entry point, and whatever they import or `#include`, wherever it lives.
+ * FunC includes are resolved relative to the including file.
+ * @param index The project's file index; the graph is built once per index and shared by the rules using it.
+ */
+export async function buildSourceGraph(projectRoot: string, index?: ProjectIndex): Promise<SourceGraph> {
+    const projectIndex = index || await createProjectIndex(projectRoot);
+    return projectIndex.memo('sourceGraph', () => collectSourceGraph(projectIndex));
+}
+
+async function collectSourceGraph(index: ProjectIndex): Promise<SourceGraph> {
+    const entryPoints = await findEntryPoints(index.root, index);
+    const contractFiles = index.glob('contracts/**/*.{tact,fc,func}');
+    const files = new Map<string, SourceImport[]>();
+    const queue = [...contractFiles.map(file => path.join(index.root, file)), ...entryPoints];
+
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        if (files.has(file) || !(file.endsWith('.tact') || isFuncFile(file)) || !fs.existsSync(file)) continue;
+
+        const content = await index.readFile(file);
+        const imports = file.endsWith('.tact')
+            ? parseTactImports(content).map(statement => {
+                const resolved = resolveTactImport(file, statement.specifier);
+                return { ...statement, resolved, exists: resolved === undefined || fs.existsSync(resolved) };
+            })
+            : parseFuncIncludes(content).map(statement => {
+                const resolved = path.resolve(path.dirname(file), statement.specifier);
+                return { ...statement, resolved, exists: fs.existsSync(resolved) };
+            });
+        files.set(file, imports);
+        for (const entry of imports) {
+            if (entry.resolved && entry.exists) queue.push(entry.resolved);
+        }
+    }
+
+    return { files, entryPoints };
+}
+
+/**
+ * Finds import cycles with a depth-first search. Each cycle is reported once,
+ * as the list of files along it starting from its first file in sorted order.
+ */
+export function findImportCycles(graph: SourceGraph): string[][] {
+    const cycles = new Map<string, string[]>();
+    const done = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (file: string) => {
+        const index = stack.indexOf(file);
+        if (index !== -1) {
+            const cycle = stack.slice(index);
+            const start = cycle.indexOf([...cycle].sort()[0]);
+            const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+            cycles.set(rotated.join('\0'), rotated);
+            return;
+        }
+        if (done.has(file)) return;
+        stack.push(file);
+        for (const entry of graph.files.get(file) || []) {
+            if (entry.resolved && entry.exists) visit(entry.resolved);
+        }
+        stack.pop();
+        done.add(file);
+    };
+
+    [...graph.files.keys()].sort().forEach(visit);
+    return [...cycles.values()];
+}
+
+/**
+ * Collects every file reachable through imports from the given files, the graph's entry points by default.
+ */
+export function findReachableFiles(graph: SourceGraph, from: string[] = graph.entryPoints): Set<string> {
+    const reachable = new Set<string>();
+    const queue = [...from];
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        if (reachable.has(file)) continue;
+        reachable.add(file);
+        for (const entry of graph.files.get(file) || []) {
+            if (entry.resolved && entry.exists) queue.push(entry.resolved);
+        }
+    }
+    return reachable;
+}
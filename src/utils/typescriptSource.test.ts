@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { getCompileTargets } from './typescriptSource';
+
+const COMPILE_FILE = path.join(path.sep, 'project', 'wrappers', 'Counter.compile.ts');
+
+function targetsOf(source: string): string[] {
+    return getCompileTargets(COMPILE_FILE, source).targetPaths;
+}
+
+test('getCompileTargets evaluates literals, constants, spreads, templates and concatenation', () => {
+    assert.deepEqual(targetsOf([
+        "const DIR = 'contracts';",
+        "const SHARED = [`${DIR}/imports/stdlib.fc`];",
+        "export const compile = { lang: 'func', targets: [...SHARED, DIR + '/counter.fc', 'contracts/' + process.env.NAME] };",
+        "// export const compile = { targets: ['contracts/old.fc'] };"
+    ].join('\n')), ['contracts/imports/stdlib.fc', 'contracts/counter.fc']);
+    assert.deepEqual(getCompileTargets(COMPILE_FILE, "export const compile = { lang: 'tact', target: 'contracts/counter.tact' };").field, 'target');
+});
+
+test('getCompileTargets resolves __dirname against the compile file', () => {
+    assert.deepEqual(
+        targetsOf("import path from 'path';\nexport const compile = { targets: [path.join(__dirname, '..', 'contracts', 'counter.fc')] };"),
+        [path.join(path.sep, 'project', 'contracts', 'counter.fc')]
+    );
+});
+
+test('getCompileTargets keeps path.resolve relative to the project root, not the linter\'s working directory', () => {
+    assert.deepEqual(
+        targetsOf("import path from 'path';\nexport const compile = { targets: [path.resolve('contracts/counter.fc'), path.resolve('contracts', './imports/', 'stdlib.fc')] };"),
+        [path.join('contracts', 'counter.fc'), path.join('contracts', 'imports', 'stdlib.fc')]
+    );
+    assert.deepEqual(
+        targetsOf("import path from 'path';\nexport const compile = { targets: [path.resolve('ignored', __dirname, '../contracts/counter.fc')] };"),
+        [path.join(path.sep, 'project', 'contracts', 'counter.fc')]
+    );
+});
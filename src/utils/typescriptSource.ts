@@ -0,0 +1,300 @@
+import path from 'path';
+import ts from 'typescript';
+import { SourceRange } from '../types';
+
+// Functions of the `path` module that compile files use to build contract paths
+const PATH_FUNCTIONS: Record<string, (...parts: string[]) => string> = {
+    join: path.join,
+    resolve: resolveFromProjectRoot,
+    normalize: path.normalize
+};
+
+/**
+ * `path.resolve` as it runs in a compile file, whose working directory is the project root rather than
+ * the linter's: without an absolute part the result stays relative to the project root.
+ */
+function resolveFromProjectRoot(...parts: string[]): string {
+    const absoluteIndex = parts.map(part => path.isAbsolute(part)).lastIndexOf(true);
+    return absoluteIndex >= 0 ? path.resolve(...parts.slice(absoluteIndex)) : path.join(...parts);
+}
+
+export function parseTypeScript(fileName: string, content: string): ts.SourceFile {
+    return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * Parses a JSON document keeping node positions, so findings can point at keys and values.
+ * @returns The top-level object, or undefined when the document is not an object.
+ */
+export function parseJsonObject(fileName: string, content: string): ts.ObjectLiteralExpression | undefined {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.JSON);
+    const statement = sourceFile.statements[0];
+    return statement && ts.isExpressionStatement(statement) && ts.isObjectLiteralExpression(statement.expression)
+        ? statement.expression
+        : undefined;
+}
+
+/**
+ * The key/value pairs of a JSON object, in document order.
+ */
+export function getJsonProperties(object: ts.ObjectLiteralExpression): { key: string; property: ts.PropertyAssignment }[] {
+    return object.properties
+        .filter(ts.isPropertyAssignment)
+        .filter(property => ts.isStringLiteral(property.name) || ts.isIdentifier(property.name))
+        .map(property => ({ key: (property.name as ts.StringLiteral | ts.Identifier).text, property }));
+}
+
+export function hasExportModifier(node: ts.Node): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * The range a node spans in its file, without leading trivia.
+ * @param endNode Node the range ends with, when it extends past `node`.
+ */
+export function getSourceRange(node: ts.Node, endNode: ts.Node = node): SourceRange {
+    const sourceFile = node.getSourceFile();
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+    const end = sourceFile.getLineAndCharacterOfPosition(endNode.getEnd());
+    return { line: start.line + 1, column: start.character + 1, endLine: end.line + 1, endColumn: end.character + 1 };
+}
+
+export interface ExportedClass {
+    name: string; // Name the class is exported as
+    node: ts.Node; // The class name, or the export specifier that exports it
+}
+
+/**
+ * Classes a module exports: `export class X`, `export default class X`
+ * and `export { X }` / `export { X as Y }` for classes declared in the same file.
+ * Re-exports from other modules are not followed.
+ */
+export function getExportedClasses(sourceFile: ts.SourceFile): ExportedClass[] {
+    const classes: ExportedClass[] = [];
+    const localClasses = new Set<string>();
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isClassDeclaration(statement) && statement.name) {
+            localClasses.add(statement.name.text);
+            if (hasExportModifier(statement)) classes.push({ name: statement.name.text, node: statement.name });
+        }
+    }
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            for (const element of statement.exportClause.elements) {
+                const localName = (element.propertyName || element.name).text;
+                if (localClasses.has(localName)) classes.push({ name: element.name.text, node: element });
+            }
+        }
+    }
+    return classes;
+}
+
+/**
+ * Whether the module has an `export * from '...'`, as Tact wrappers re-exporting generated bindings do.
+ */
+export function hasExportAll(sourceFile: ts.SourceFile): boolean {
+    return sourceFile.statements.some(statement => ts.isExportDeclaration(statement) && !!statement.moduleSpecifier && !statement.exportClause);
+}
+
+/**
+ * Strips parentheses, `as`, `satisfies`, `<T>` assertions and `!` from an expression.
+ */
+export function unwrap(expression: ts.Expression): ts.Expression {
+    while (
+        ts.isParenthesizedExpression(expression) ||
+        ts.isAsExpression(expression) ||
+        ts.isSatisfiesExpression(expression) ||
+        ts.isTypeAssertionExpression(expression) ||
+        ts.isNonNullExpression(expression)
+    ) {
+        expression = expression.expression;
+    }
+    return expression;
+}
+
+// A piece of source text a path is written in: a string literal or the text parts of a template
+export type PathLiteral = ts.StringLiteralLike | ts.TemplateHead | ts.TemplateMiddle | ts.TemplateTail;
+
+/**
+ * Statically evaluates the expressions compile files use for contract paths.
+ * Anything that cannot be known without running the file evaluates to undefined.
+ */
+class StaticEvaluator {
+    private readonly constants = new Map<string, ts.Expression>();
+    private readonly evaluating = new Set<string>();
+
+    constructor(private readonly sourceFile: ts.SourceFile) {
+        const visit = (node: ts.Node) => {
+            if (ts.isVariableDeclarationList(node) && (node.flags & ts.NodeFlags.Const) !== 0) {
+                for (const declaration of node.declarations) {
+                    if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+                        this.constants.set(declaration.name.text, declaration.initializer);
+                    }
+                }
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+    }
+
+    string(node: ts.Expression): string | undefined {
+        const expression = unwrap(node);
+        if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+            return expression.text;
+        }
+        if (ts.isTemplateExpression(expression)) {
+            let result = expression.head.text;
+            for (const span of expression.templateSpans) {
+                const value = this.string(span.expression);
+                if (value === undefined) return undefined;
+                result += value + span.literal.text;
+            }
+            return result;
+        }
+        if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+            const left = this.string(expression.left);
+            const right = this.string(expression.right);
+            return left === undefined || right === undefined ? undefined : left + right;
+        }
+        if (ts.isIdentifier(expression)) {
+            if (expression.text === '__dirname') return path.dirname(this.sourceFile.fileName);
+            if (expression.text === '__filename') return this.sourceFile.fileName;
+            return this.constant(expression.text, value => this.string(value));
+        }
+        if (ts.isCallExpression(expression)) {
+            const callee = unwrap(expression.expression);
+            const name = ts.isPropertyAccessExpression(callee) ? callee.name.text : ts.isIdentifier(callee) ? callee.text : undefined;
+            const fn = name !== undefined ? PATH_FUNCTIONS[name] : undefined;
+            if (!fn) return undefined;
+            const parts = expression.arguments.map(argument => this.string(argument));
+            return parts.every((part): part is string => part !== undefined) ? fn(...parts) : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluates an array of paths, following spreads. Elements that cannot be evaluated are left out.
+     * @returns Each path with the array element it was evaluated from.
+     */
+    strings(node: ts.Expression): { value: string; node: ts.Expression }[] | undefined {
+        const expression = unwrap(node);
+        if (ts.isIdentifier(expression)) {
+            return this.constant(expression.text, value => this.strings(value));
+        }
+        if (!ts.isArrayLiteralExpression(expression)) return undefined;
+        const result: { value: string; node: ts.Expression }[] = [];
+        for (const element of expression.elements) {
+            if (ts.isSpreadElement(element)) {
+                result.push(...(this.strings(element.expression) || []));
+            } else {
+                const value = this.string(element);
+                if (value !== undefined) result.push({ value, node: element });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * The string literals and template text an expression's value is built from, in order, following local constants.
+     */
+    literals(node: ts.Expression): PathLiteral[] {
+        const expression = unwrap(node);
+        if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) return [expression];
+        if (ts.isTemplateExpression(expression)) {
+            return [expression.head, ...expression.templateSpans.flatMap(span => [...this.literals(span.expression), span.literal])];
+        }
+        if (ts.isBinaryExpression(expression)) return [...this.literals(expression.left), ...this.literals(expression.right)];
+        if (ts.isIdentifier(expression)) return this.constant(expression.text, value => this.literals(value)) || [];
+        if (ts.isCallExpression(expression)) return expression.arguments.flatMap(argument => this.literals(argument));
+        return [];
+    }
+
+    private constant<T>(name: string, evaluate: (initializer: ts.Expression) => T | undefined): T | undefined {
+        const initializer = this.constants.get(name);
+        // Guards against `const a = b; const b = a;`
+        if (!initializer || this.evaluating.has(name)) return undefined;
+        this.evaluating.add(name);
+        try {
+            return evaluate(initializer);
+        } finally {
+            this.evaluating.delete(name);
+        }
+    }
+}
+
+/**
+ * Evaluates an expression to a string without running the file, the way compile targets are:
+ * literals, templates, concatenation, local constants and `path` calls.
+ * @returns undefined when the value depends on anything else, such as `process.env`.
+ */
+export function evaluateStaticString(node: ts.Expression): string | undefined {
+    return new StaticEvaluator(node.getSourceFile()).string(node);
+}
+
+export interface CompileTargets {
+    field?: 'targets' | 'target'; // Which field the paths came from, if any
+    targetPaths: string[]; // Contract paths as written, relative to the project root unless absolute
+    ranges: SourceRange[]; // Where each of `targetPaths` is written, possibly in a constant it was taken from
+    literals: PathLiteral[][]; // The literals each of `targetPaths` is built from, in order
+}
+
+function findCompileConfig(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+    let exported: ts.ObjectLiteralExpression | undefined;
+    let fallback: ts.ObjectLiteralExpression | undefined;
+    const visit = (node: ts.Node) => {
+        if (exported) return;
+        if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === 'compile' && node.initializer) {
+            const initializer = unwrap(node.initializer);
+            if (ts.isObjectLiteralExpression(initializer)) exported = initializer;
+        }
+        if (!fallback && ts.isObjectLiteralExpression(node) && node.properties.some(property => {
+            const name = property.name && ts.isIdentifier(property.name) ? property.name.text : undefined;
+            return name === 'targets' || name === 'target';
+        })) {
+            fallback = node;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return exported || fallback;
+}
+
+/**
+ * Extracts the contract paths a `*.compile.ts` file compiles from its `compile` config:
+ * string literals, templates, concatenation, local constants, spreads and `path.join()`/`path.resolve()`
+ * (with `__dirname`) are evaluated; commented-out code is ignored.
+ * @param fileName Absolute path of the compile file, used for `__dirname`.
+ * @param content Source of the compile file.
+ */
+export function getCompileTargets(fileName: string, content: string): CompileTargets {
+    const config = findCompileConfig(parseTypeScript(fileName, content));
+    if (!config) return { targetPaths: [], ranges: [], literals: [] };
+
+    const evaluator = new StaticEvaluator(config.getSourceFile());
+    for (const field of ['targets', 'target'] as const) {
+        const property = config.properties.find(candidate =>
+            candidate.name && (ts.isIdentifier(candidate.name) || ts.isStringLiteral(candidate.name)) && candidate.name.text === field
+        );
+        if (!property) continue;
+        const initializer = ts.isPropertyAssignment(property)
+            ? property.initializer
+            : ts.isShorthandPropertyAssignment(property) ? property.name : undefined;
+        if (!initializer) continue;
+
+        if (field === 'targets') {
+            const targets = evaluator.strings(initializer) || [];
+            return {
+                field,
+                targetPaths: targets.map(target => target.value),
+                ranges: targets.map(target => getSourceRange(target.node)),
+                literals: targets.map(target => evaluator.literals(target.node))
+            };
+        }
+        const target = evaluator.string(initializer);
+        return target !== undefined
+            ? { field, targetPaths: [target], ranges: [getSourceRange(initializer)], literals: [evaluator.literals(initializer)] }
+            : { field, targetPaths: [], ranges: [], literals: [] };
+    }
+    return { targetPaths: [], ranges: [], literals: [] };
+}
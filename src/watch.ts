@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { lint, relintProject, buildLintResult } from './lint';
+import { CONFIG_FILE_NAMES } from './config/loadConfig';
+import { isExtraRuleInput, isRuleInput } from './rules/registry';
+import { IGNORE_FILE_NAME, IgnoreMatcher, loadIgnoreMatcher } from './config/ignoreFile';
+import { Baseline, loadBaseline } from './baseline';
+import { PNPM_WORKSPACE_FILE } from './workspaces';
+import { LintOptions, LintResult, RuleMeta } from './types';
+
+// Changes to these files can change which projects exist or how they are configured
+const DISCOVERY_FILES = ['package.json', PNPM_WORKSPACE_FILE, 'blueprint.config.ts', IGNORE_FILE_NAME, ...CONFIG_FILE_NAMES];
+const IGNORED_DIRS = ['.git'];
+const DEBOUNCE_MS = 100;
+
+export interface Watcher {
+    close(): void;
+}
+
+export interface WatchCallbacks {
+    onResult: (result: LintResult, changedFiles: string[]) => void; // Called after the initial run and after every re-run
+    onError?: (error: Error) => void;
+}
+
+/**
+ * Watches every directory under `root` except `.git` and the contents of `node_modules`,
+ * picking up directories created later. `node_modules` itself is watched so that
+ * installing a dependency is noticed.
+ */
+function watchDirectories(root: string, onChange: (file: string) => void): Watcher {
+    const watchers = new Map<string, fs.FSWatcher>();
+
+    const watchDirectory = (dir: string) => {
+        if (watchers.has(dir)) return;
+        let watcher: fs.FSWatcher;
+        try {
+            watcher = fs.watch(dir, (_event, fileName) => {
+                const file = fileName ? path.join(dir, fileName.toString()) : dir;
+                if (fileName && path.basename(dir) !== 'node_modules' && isDirectory(file)) watchTree(file);
+                onChange(file);
+            });
+        } catch {
+            return; // Removed before we got to it
+        }
+        watcher.on('error', () => {
+            watcher.close();
+            watchers.delete(dir);
+        });
+        watchers.set(dir, watcher);
+    };
+
+    const watchTree = (dir: string) => {
+        watchDirectory(dir);
+        if (path.basename(dir) === 'node_modules') return;
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        entries
+            .filter(entry => entry.isDirectory() && !IGNORED_DIRS.includes(entry.name))
+            .forEach(entry => watchTree(path.join(dir, entry.name)));
+    };
+
+    watchTree(root);
+    return {
+        close: () => {
+            watchers.forEach(watcher => watcher.close());
+            watchers.clear();
+        }
+    };
+}
+
+function isDirectory(file: string): boolean {
+    try {
+        return fs.statSync(file).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether a change needs projects to be discovered again rather than rules re-run:
+ * package.json, Blueprint and linter configs, the baseline, dependencies, directories
+ * appearing or disappearing, and files outside every valid project.
+ */
+function needsDiscovery(file: string, result: LintResult, knownDirs: Set<string>): boolean {
+    if (DISCOVERY_FILES.includes(path.basename(file))) return true;
+    if (result.baseline && file === result.baseline.file) return true;
+    if (file.split(path.sep).includes('node_modules')) return true;
+    if (knownDirs.has(file) || isDirectory(file)) return true;
+    return !findValidProject(file, result);
+}
+
+/**
+ * The innermost valid project containing `file`.
+ */
+export function findValidProject(file: string, result: LintResult): string | undefined {
+    return result.projects
+        .filter(project => project.status === 'valid' && file.startsWith(project.root + path.sep))
+        .map(project => project.root)
+        .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Rules whose `inputs` or `extraInputs` match a file of a project. Rules without `inputs` always match.
+ */
+function affectedRules(file: string, projectRoot: string, rules: RuleMeta[]): string[] {
+    return rules
+        .filter(rule => isRuleInput(rule, path.relative(projectRoot, file)) || isExtraRuleInput(rule, projectRoot, file))
+        .map(rule => rule.id);
+}
+
+function collectDirectories(result: LintResult): Set<string> {
+    const dirs = new Set<string>();
+    result.projects.forEach(project => {
+        for (let dir = project.root; dir.startsWith(result.scanPath); dir = path.dirname(dir)) {
+            dirs.add(dir);
+            if (dir === path.dirname(dir)) break;
+        }
+    });
+    return dirs;
+}
+
+export interface IncrementalLinter {
+    readonly result: LintResult; // The latest result
+    update(changedFiles: string[]): Promise<LintResult>; // Re-lints after changes to these absolute paths
+}
+
+/**
+ * Lints `scanPath` and keeps the result up to date as files change. A change inside a valid
+ * project re-runs only the rules whose `inputs` match the changed files, for that project only.
+ * Changes that can affect project discovery re-run everything. Fixes are never applied and
+ * the baseline is never written. Calls to `update` must not overlap.
+ */
+export async function createIncrementalLinter(scanPath: string, options: LintOptions): Promise<IncrementalLinter> {
+    const absoluteScanPath = path.resolve(scanPath);
+    const lintOptions: LintOptions = { ...options, fix: false, fixDryRun: false, writeBaseline: false };
+    let result = await lint(absoluteScanPath, lintOptions);
+    let knownDirs = collectDirectories(result);
+    let isIgnored: IgnoreMatcher = await loadIgnoreMatcher(absoluteScanPath);
+    // The baseline lint() applied, to keep applying it to re-run rules
+    const loadUsedBaseline = () => result.baseline ? loadBaseline(result.baseline.file) : undefined;
+    let baseline: Baseline | undefined = loadUsedBaseline();
+
+    const update = async (changedFiles: string[]) => {
+        if (changedFiles.some(file => needsDiscovery(file, result, knownDirs))) {
+            result = await lint(absoluteScanPath, lintOptions);
+            knownDirs = collectDirectories(result);
+            isIgnored = await loadIgnoreMatcher(absoluteScanPath);
+            baseline = loadUsedBaseline();
+            return result;
+        }
+
+        const rulesByProject = new Map<string, Set<string>>();
+        for (const file of changedFiles) {
+            const projectRoot = findValidProject(file, result)!;
+            const ruleIds = rulesByProject.get(projectRoot) || new Set<string>();
+            affectedRules(file, projectRoot, result.rules).forEach(id => ruleIds.add(id));
+            rulesByProject.set(projectRoot, ruleIds);
+        }
+
+        let findings = [...result.findings, ...(result.baseline ? result.baseline.baselined : [])];
+        for (const [projectRoot, ruleIds] of rulesByProject) {
+            if (ruleIds.size === 0) continue;
+            const project = result.projects.find(candidate => candidate.root === projectRoot)!;
+            const stale = new Set(project.findings.filter(finding => finding.ruleId && ruleIds.has(finding.ruleId)));
+            const fresh = await relintProject(absoluteScanPath, projectRoot, lintOptions, [...ruleIds], isIgnored);
+            findings = [...findings.filter(finding => !stale.has(finding)), ...fresh];
+        }
+        result = buildLintResult(absoluteScanPath, findings, result.projects, result.rules, undefined, baseline);
+        return result;
+    };
+
+    return {
+        get result() {
+            return result;
+        },
+        update
+    };
+}
+
+/**
+ * Lints `scanPath`, then keeps watching it and re-lints on every change, as `createIncrementalLinter` does.
+ * @returns A Watcher; call `close()` to stop watching.
+ */
+export async function watch(scanPath: string, options: LintOptions, callbacks: WatchCallbacks): Promise<Watcher> {
+    const absoluteScanPath = path.resolve(scanPath);
+    const linter = await createIncrementalLinter(absoluteScanPath, options);
+    callbacks.onResult(linter.result, []);
+
+    let pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let running = false;
+    let closed = false;
+
+    const flush = async () => {
+        timer = undefined;
+        if (running || closed) return;
+        running = true;
+        const changedFiles = [...pending].sort();
+        pending = new Set();
+        try {
+            const result = await linter.update(changedFiles);
+            if (!closed) callbacks.onResult(result, changedFiles);
+        } catch (error: any) {
+            callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+        } finally {
+            running = false;
+            // Changes that arrived while linting
+            if (pending.size > 0 && !closed) timer = setTimeout(flush, DEBOUNCE_MS);
+        }
+    };
+
+    const directoryWatcher = watchDirectories(absoluteScanPath, file => {
+        pending.add(file);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, DEBOUNCE_MS);
+    });
+
+    return {
+        close: () => {
+            closed = true;
+            if (timer) clearTimeout(timer);
+            directoryWatcher.close();
+        }
+    };
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createFixture } from './testing/fixtures';
+import { findWorkspaceRoot, getWorkspacePatterns } from './workspaces';
+
+test('getWorkspacePatterns reads npm/yarn workspaces in both shapes', () => {
+    assert.deepEqual(getWorkspacePatterns(createFixture({ 'package.json': JSON.stringify({ workspaces: ['packages/*'] }) })), ['packages/*']);
+    assert.deepEqual(getWorkspacePatterns(createFixture({ 'package.json': JSON.stringify({ workspaces: { packages: ['apps/*'] } }) })), ['apps/*']);
+    assert.equal(getWorkspacePatterns(createFixture({ 'package.json': JSON.stringify({ name: 'single' }) })), undefined);
+});
+
+test('getWorkspacePatterns reads the packages list of pnpm-workspace.yaml', () => {
+    const root = createFixture({
+        'pnpm-workspace.yaml': [
+            '# Workspace packages',
+            'packages:',
+            "  - 'packages/*'",
+            '  - "apps/**"',
+            '',
+            '  # Not a member',
+            "  - '!**/test/**'",
+            'catalog:',
+            '  - not-a-package',
+            ''
+        ].join('\n')
+    });
+    assert.deepEqual(getWorkspacePatterns(root), ['packages/*', 'apps/**', '!**/test/**']);
+});
+
+test('findWorkspaceRoot finds the nearest parent whose patterns match, honoring exclusions', () => {
+    const root = createFixture({
+        'package.json': JSON.stringify({ workspaces: ['packages/*', '!packages/legacy'] }),
+        'packages/app/package.json': '{}',
+        'packages/legacy/package.json': '{}',
+        'tools/script/package.json': '{}'
+    });
+    assert.equal(findWorkspaceRoot(path.join(root, 'packages/app')), root);
+    assert.equal(findWorkspaceRoot(path.join(root, 'packages/legacy')), undefined);
+    assert.equal(findWorkspaceRoot(path.join(root, 'tools/script')), undefined);
+});
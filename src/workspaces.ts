@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+export const PNPM_WORKSPACE_FILE = 'pnpm-workspace.yaml';
+
+// The `packages:` list of pnpm-workspace.yaml
+function readPnpmWorkspace(file: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of fs.readFileSync(file, 'utf-8').split(/\r?\n/)) {
+        if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+        if (/^\S/.test(line)) {
+            inPackages = /^packages:\s*$/.test(line);
+            continue;
+        }
+        const item = inPackages && /^\s+-\s+(.+?)\s*$/.exec(line);
+        if (item) patterns.push(item[1].replace(/^['"]|['"]$/g, ''));
+    }
+    return patterns;
+}
+
+/**
+ * The workspace patterns a directory declares: the `workspaces` field of its package.json
+ * (npm and yarn, as an array or as `{ packages: [...] }`) and the `packages` of its pnpm-workspace.yaml.
+ * Patterns starting with `!` exclude directories.
+ * @returns undefined when the directory is not a workspace root.
+ */
+export function getWorkspacePatterns(dir: string): string[] | undefined {
+    let patterns: string[] | undefined;
+    try {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+        const workspaces = Array.isArray(packageJson?.workspaces) ? packageJson.workspaces : packageJson?.workspaces?.packages;
+        if (Array.isArray(workspaces)) patterns = workspaces.filter((pattern: unknown): pattern is string => typeof pattern === 'string');
+    } catch {
+        // Missing and invalid package.json files are reported by the project structure check
+    }
+    const pnpmWorkspaceFile = path.join(dir, PNPM_WORKSPACE_FILE);
+    if (fs.existsSync(pnpmWorkspaceFile)) {
+        try {
+            patterns = [...(patterns || []), ...readPnpmWorkspace(pnpmWorkspaceFile)];
+        } catch {
+            patterns = patterns || [];
+        }
+    }
+    return patterns;
+}
+
+/**
+ * Whether `relativeDir` (relative to the workspace root, with forward slashes) is one of its packages.
+ */
+function isWorkspaceMember(relativeDir: string, patterns: string[]): boolean {
+    let member = false;
+    for (const pattern of patterns) {
+        const negated = pattern.startsWith('!');
+        const glob = (negated ? pattern.slice(1) : pattern).replace(/^\.\//, '').replace(/\/$/, '');
+        if (minimatch(relativeDir, glob, { dot: true })) member = !negated;
+    }
+    return member;
+}
+
+/**
+ * Finds the workspace root `dir` belongs to: the nearest parent directory whose workspace
+ * patterns match it.
+ * @returns undefined when `dir` is not a workspace package.
+ */
+export function findWorkspaceRoot(dir: string): string | undefined {
+    for (let parent = path.dirname(dir); ; parent = path.dirname(parent)) {
+        const patterns = getWorkspacePatterns(parent);
+        if (patterns && isWorkspaceMember(path.relative(parent, dir).split(path.sep).join('/'), patterns)) return parent;
+        if (parent === path.dirname(parent)) return undefined;
+    }
+}